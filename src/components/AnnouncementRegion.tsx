@@ -0,0 +1,49 @@
+import React, { JSX, useCallback, useState } from "react"
+import { AnnouncementContext } from "../core/StatementAccessibility"
+
+/** Props for the `AnnouncementRegion` component. */
+export type AnnouncementRegionProps = {
+    /** The content whose announcements to read out. */
+    children: React.ReactNode
+}
+
+/**
+ * Provide `AnnouncementContext` to the children, reading out their announcements through a visually hidden live region.
+ * 
+ * @param props - `AnnouncementRegionProps`
+ * @param props.children - The content whose announcements to read out
+ * 
+ * @returns A JSX element containing the children followed by the live region
+ */
+export function AnnouncementRegion({ children }: AnnouncementRegionProps): JSX.Element {
+    const [announcement, setAnnouncement] = useState<{ message: string, count: number }>({ message: "", count: 0 })
+
+    // Count the announcements, so that a message repeated later is rendered anew and read out again
+    const announce = useCallback((message: string) => {
+        setAnnouncement(({ count }) => ({ message, count: count + 1 }))
+    }, [])
+
+    return (
+        <AnnouncementContext.Provider value={announce}>
+            {children}
+            <div
+                role="status"
+                aria-live="polite"
+                aria-atomic="true"
+                style={{
+                    position: 'absolute',
+                    width: '1px',
+                    height: '1px',
+                    margin: '-1px',
+                    padding: 0,
+                    overflow: 'hidden',
+                    clip: 'rect(0, 0, 0, 0)',
+                    whiteSpace: 'nowrap',
+                    border: 0
+                }}
+            >
+                <span key={announcement.count}>{announcement.message}</span>
+            </div>
+        </AnnouncementContext.Provider>
+    )
+}
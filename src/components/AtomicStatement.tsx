@@ -1,66 +1,8 @@
 import React, { JSX } from "react"
 import { MathExpression } from "./MathExpression"
 import { StatementAddress } from "../core/ProofStateSelectionContext"
-
-/** A segment within an atomic statement, either plain text or a mathematical expression. */
-type Segment = 
-  | { type: "text", content: string }
-  | { type: "math", content: string }
-
-/**
- * Parse a string with mathematical expressions delimited by dollar signs ($).
- * 
- * @param input - A string with math expressions like "The value $x + y$ equals $z$"
- * @returns An array of segments alternating between text and math
- * 
- * @example
- * parseAtomicStatement("The value $x + y$ equals $z$")
- * // Returns: [
- * //   { type: "text", content: "The value " },
- * //   { type: "math", content: "x + y" },
- * //   { type: "text", content: " equals " },
- * //   { type: "math", content: "z" }
- * // ]
- */
-function parseAtomicStatement(input: string): Segment[] {
-  const segments: Segment[] = []
-  let currentPos = 0
-  let inMath = false
-  let segmentStart = 0
-
-  for (let i = 0; i < input.length; i++) {
-    if (input[i] === "$") {
-      // Extract the segment before this delimiter
-      const content = input.substring(segmentStart, i)
-      
-      if (inMath) {
-        // End of math segment
-        if (content.length > 0) {
-          segments.push({ type: "math", content })
-        }
-      } else {
-        // End of text segment
-        if (content.length > 0) {
-          segments.push({ type: "text", content })
-        }
-      }
-      
-      // Toggle mode and start new segment
-      inMath = !inMath
-      segmentStart = i + 1
-    }
-  }
-
-  // Handle remaining content after the last delimiter
-  if (segmentStart < input.length) {
-    const content = input.substring(segmentStart)
-    if (content.length > 0) {
-      segments.push({ type: inMath ? "math" : "text", content })
-    }
-  }
-
-  return segments
-}
+import { AtomicStatementDiagnostic, checkAtomicStatement, parseAtomicStatement } from "../core/AtomicStatement"
+import { statementLabel } from "../core/StatementAccessibility"
 
 /** Props for the `AtomicStatement` component. */
 export type AtomicStatementProps = {
@@ -70,12 +12,52 @@ export type AtomicStatementProps = {
   input: string
 }
 
+/**
+ * Render malformed input verbatim, underlining the parts the diagnostics point at and explaining them on hover.
+ */
+function MalformedAtomicStatement({ input, diagnostics }: { input: string, diagnostics: AtomicStatementDiagnostic[] }): JSX.Element {
+  const sorted = [...diagnostics].sort((a, b) => a.start - b.start)
+  const parts: JSX.Element[] = []
+  let pos = 0
+  sorted.forEach((diagnostic, idx) => {
+    const start = Math.max(diagnostic.start, pos)
+    if (start > pos) parts.push(<span key={`text-${idx}`}>{input.slice(pos, start)}</span>)
+    parts.push(
+      <span
+        key={`diagnostic-${idx}`}
+        title={diagnostic.message}
+        style={{ textDecoration: 'underline wavy red', backgroundColor: 'rgba(239, 68, 68, 0.1)' }}
+      >
+        {input.slice(start, diagnostic.end)}
+      </span>
+    )
+    pos = Math.max(pos, diagnostic.end)
+  })
+  if (pos < input.length) parts.push(<span key="rest">{input.slice(pos)}</span>)
+
+  const messages = diagnostics.map(diagnostic => diagnostic.message).join(" ")
+  return (
+    <span
+      role="group"
+      aria-label={`Malformed statement: ${input}. ${messages}`}
+      aria-invalid="true"
+      title={messages}
+      style={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap' }}
+    >
+      {parts}
+    </span>
+  )
+}
+
 /**
  * Render an atomic statement as a combination of text and mathematical expressions.
  * 
  * An atomic statement is a string that may contain mathematical expressions surrounded
  * by dollar signs ($). This component parses the input string, separates text from
  * math expressions, and renders each math expression using the `MathExpression` component.
+ * Screen readers read the statement as a whole, with its math written in Unicode symbols.
+ * A dollar sign escaped as `\$` is shown as it is. Malformed input, such as a `$` without its closing `$`,
+ * is shown verbatim with the problem marked, instead of guessing which parts are math.
  * 
  * @param props - `AtomicStatementProps`
  * @param props.address - The location within the logical structure of a larger statement
@@ -90,11 +72,16 @@ export type AtomicStatementProps = {
  * />
  */
 export function AtomicStatement({ address, input }: AtomicStatementProps): JSX.Element {
+  const diagnostics = checkAtomicStatement(input)
+  if (diagnostics.length > 0) {
+    return <MalformedAtomicStatement input={input} diagnostics={diagnostics} />
+  }
+
   const segments = parseAtomicStatement(input)
   let mathIndex = 0
 
   return (
-    <span>
+    <span role="group" aria-label={statementLabel(input)}>
       {segments.map((segment, idx) => {
         if (segment.type === "text") {
           return <span key={idx}>{segment.content}</span>
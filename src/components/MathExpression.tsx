@@ -1,22 +1,39 @@
 import React, { JSX, useCallback, useEffect, useMemo, useRef, useState } from "react"
-import { SubExpression, SubExpressionCore, SubExpressionCoreWithIndex } from "../core/SubExpression"
+import { areSubExpressionSelectionsEqual, childSubExpressions, enclosingSubExpressions, smallestCoveringSubExpression, SubExpression, SubExpressionCore, SubExpressionCoreWithIndex, subExpressionParents } from "../core/SubExpression"
 import { ProofStateSelectionContext, StatementAddress, ProofStateLocationContext, areStatementAddressesEqual } from "../core/ProofStateSelectionContext"
-import { ProofStateIdContext } from "../core/ProofDiscoveryStateContext"
+import { areProofStateIdsEqual, ProofStateIdContext } from "../core/ProofDiscoveryStateContext"
+import { createMathCompilationCache, isCompilationCancelled, MathCompilationCache } from "../core/MathCompilationCache"
+import { createWorkerMathCompiler } from "../core/MathCompilationWorkerClient"
+import { AnnouncementContext, mathLabel } from "../core/StatementAccessibility"
 
 type MathCompilationResponse = 
   { svg: string, subexpressions: SubExpression[] } |
   { error: string }
 
+/** The math compiler shared by all math expressions, with a cache of its results. */
 export const WasmContext = 
-    React.createContext<React.RefObject<{ compile: (input: string) => string} | null> | null>(null)
+    React.createContext<React.RefObject<MathCompilationCache | null> | null>(null)
 
-export async function loadWasm(wasm: React.RefObject<{ compile: (input: string) => string } | null>) {
+/**
+ * Load the math compiler into the given ref once its WASM is ready.
+ *
+ * Compilation runs in a Web Worker so that large proof states do not block rendering,
+ * or on the main thread where Web Workers are not available.
+ */
+export async function loadWasm(wasm: React.RefObject<MathCompilationCache | null>) {
     if (!wasm.current) {
         try {
-            const mod = await import("../../pkg/typst_wasm.js")
-            await mod.default()
-            mod.init_panic_hook?.()
-            wasm.current = { compile: mod.compile_math_with_subexpressions }
+            if (typeof Worker !== "undefined") {
+                const worker = new Worker(new URL("../core/MathCompilationWorker.ts", import.meta.url), { type: "module" })
+                const compiler = createWorkerMathCompiler(worker)
+                await compiler.ready
+                wasm.current = createMathCompilationCache(compiler)
+            } else {
+                const mod = await import("../../pkg/typst_wasm.js")
+                await mod.default()
+                mod.init_panic_hook?.()
+                wasm.current = createMathCompilationCache({ compile: async input => mod.compile_math_with_subexpressions(input) })
+            }
             console.log("WASM loaded successfully")
         } catch (e) {
             console.warn("Failed to load WASM: ", e)
@@ -24,6 +41,46 @@ export async function loadWasm(wasm: React.RefObject<{ compile: (input: string)
     }
 }
 
+/**
+ * Compile a math expression in the background, cancelling the request when the input changes.
+ *
+ * @returns The latest compilation along with its input, which differs from the given input
+ * while the compilation of the current input is in progress, or `null` before the first one arrives
+ */
+function useMathCompilation(compiler: MathCompilationCache | null, input: string): { input: string, response: MathCompilationResponse } | null {
+    const [compilation, setCompilation] = useState<{ input: string, response: MathCompilationResponse } | null>(null)
+
+    useEffect(() => {
+        if (!compiler) return
+        const controller = new AbortController()
+        compiler.compile(input, controller.signal).then(
+            result => {
+                try {
+                    setCompilation({ input, response: JSON.parse(result) as MathCompilationResponse })
+                } catch (e) {
+                    setCompilation({ input, response: { error: String(e) } })
+                }
+            },
+            e => {
+                if (isCompilationCancelled(e)) return
+                console.error("Failed to compile math expression:", e)
+                setCompilation({ input, response: { error: String(e) } })
+            })
+        return () => controller.abort()
+    }, [compiler, input])
+
+    return compilation
+}
+
+/** A press of the pointer on a math expression, which selects the area dragged over once it has moved far enough. */
+type DragState = {
+    /** Where the press started, in the coordinates of the SVG. */
+    start: { x: number, y: number }
+    clientX: number
+    clientY: number
+    moved: boolean
+}
+
 /** Props for the `MathExpression` component. */
 export type MathExpressionProps = {
     /** The location within the logical structure of a larger statement where this expression is situated. */
@@ -39,10 +96,16 @@ export type MathExpressionProps = {
  * Render a string as a hoverable and clickable math expression.
  * 
  * This component compiles a math expression using WASM, renders it as SVG, and provides
- * interactive features for selecting and highlighting subexpressions. It supports:
+ * interactive features for selecting and highlighting subexpressions. Compilation runs in the background,
+ * with the source shown as a placeholder until the result arrives. It supports:
  * - Hovering over subexpressions to highlight them
  * - Clicking to toggle selection of subexpressions
+ * - Growing the selection under the pointer to the enclosing subexpression with Alt+click, or shrinking it with Alt+Shift+click
+ * - Dragging to select the smallest subexpression covering the dragged area
+ * - Moving between nested subexpressions with the arrow keys and toggling their selection with Enter or Space,
+ *   or growing and shrinking the selection at the cursor with Shift+Up and Shift+Down
  * - Visual feedback for both hover and selections
+ * - A label for screen readers, with the subexpressions reached with the keyboard and changes of selection announced
  * 
  * @param props - `MathExpressionProps`
  * @param props.address - the location within the logical structure of a larger statement where this expression is situated
@@ -53,58 +116,44 @@ export type MathExpressionProps = {
  * @returns A JSX element containing the rendered SVG math expression with an interactive overlay
  * 
  * @remarks
- * - Requires `WasmContext` to be provided for math compilation
+ * - Requires `WasmContext` to be provided for math compilation, whose cache is shared by all expressions
  * - Requires `ProofStateSelectionContext` for managing selections
  * - Requires `ProofStateLocationContext` and `ProofStateIdContext` for identifying the current proof location
  * - Selection state is managed globally through the `ProofStateSelectionContext`
+ * - Announces the keyboard cursor and selections through `AnnouncementContext`, which `AnnouncementRegion` provides
  * 
  */
 export function MathExpression({ address, index, input }: MathExpressionProps): JSX.Element {
     // Internal padding for the SVG (in pixels)
     const INTERNAL_PADDING = 2
+    // Distance the pointer must move (in screen pixels) before a press becomes a drag
+    const DRAG_THRESHOLD = 4
     
     const wasm = React.useContext(WasmContext)
     const { selections, dispatch } = React.useContext(ProofStateSelectionContext)
     const proofStateLocation = React.useContext(ProofStateLocationContext)
     const proofStateId = React.useContext(ProofStateIdContext)
+    const announce = React.useContext(AnnouncementContext)
     
-    if (!wasm?.current) {
-        console.warn("WASM not loaded yet")
-        return <>Loading...</>
-    }
-
-    const compiler = wasm.current
-
-    const compileResult = useMemo<MathCompilationResponse | null>(() => {
-        if (!compiler) {
-            return { error: "Compiler unavailable" }
-        }
-
-        try {
-            const result = compiler.compile(input)
-            return JSON.parse(result) as MathCompilationResponse
-        } catch (e) {
-            console.error("Failed to compile math expression:", e)
-            return { error: String(e) }
-        }
-    }, [compiler, input])
-
-    if (!compileResult || "error" in compileResult) {
-        const message = compileResult?.error ?? "Unknown compilation error"
-        console.warn("Math compilation error:", message)
-        return <div style={{ color: 'red', fontWeight: 'bold', padding: '8px' }}>
-            ERROR: {message}
-        </div>
-    }
+    const compiler = wasm?.current ?? null
+    const compilation = useMathCompilation(compiler, input)
+    const compileResult = compilation?.input === input ? compilation.response : null
 
-    const svgString = compileResult.svg
-    const subexprs = compileResult.subexpressions
+    const svgString = compileResult && "svg" in compileResult ? compileResult.svg : null
+    const subexprs = useMemo(() => compileResult && "svg" in compileResult ? compileResult.subexpressions : [], [compileResult])
+    // The nesting of the subexpressions, which the arrow keys walk along
+    const parents = useMemo(() => subExpressionParents(subexprs), [subexprs])
     
     const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+    // The subexpression reached with the arrow keys, or `null` for the expression as a whole
+    const [focusIndex, setFocusIndex] = useState<number | null>(null)
     const [overlayVersion, setOverlayVersion] = useState(0)
 
     const overlayRef = useRef<SVGGElement | null>(null)
     const svgRef = useRef<SVGSVGElement | null>(null)
+    const dragRef = useRef<DragState | null>(null)
+    // Set when a drag ends, to ignore the click that follows it
+    const suppressClickRef = useRef(false)
 
     // Ref callback to inject SVG and configure overlay when the container mounts
     const attachSvg = useCallback((element: HTMLDivElement | null) => {
@@ -146,6 +195,8 @@ export function MathExpression({ address, index, input }: MathExpressionProps):
                     svg.setAttribute('height', String(scaledHeight))
                 }
                 
+                // The container carries the label for screen readers, so the glyphs are left out
+                svg.setAttribute('aria-hidden', 'true')
                 element.appendChild(svg)
                 
                 svg.style.display = 'inline-block'
@@ -200,7 +251,7 @@ export function MathExpression({ address, index, input }: MathExpressionProps):
         if (proofStateLocation) {
             selections.forEach(selection => {
                 // Check if this selection matches the current context
-                if (selection.proofStateId === proofStateId &&
+                if (areProofStateIdsEqual(selection.proofStateId, proofStateId) &&
                     selection.location.kind === proofStateLocation.kind &&
                     selection.location.label === proofStateLocation.label &&
                     areStatementAddressesEqual(selection.address, address) &&
@@ -234,93 +285,305 @@ export function MathExpression({ address, index, input }: MathExpressionProps):
                 1.25
             ))
         }
-    }, [hoverIndex, selections, proofStateId, proofStateLocation, overlayVersion])
 
-    // Find smallest subexpression at a point
-    function findSmallestAtPoint(x: number, y: number): number {
-        let idx = -1
-        let bestArea = Infinity
-        subexprs.forEach((s, i) => {
-            if (x >= s.x && x <= s.x + s.width && y >= s.y && y <= s.y + s.height) {
-                const area = s.width * s.height
-                if (area < bestArea) {
-                    bestArea = area
-                    idx = i
-                }
-            }
-        })
-        return idx
-    }
+        // Outline the subexpression reached with the keyboard
+        if (focusIndex !== null && subexprs[focusIndex]) {
+            overlay.appendChild(createRect(
+                subexprs[focusIndex],
+                "none",
+                "rgba(33, 150, 243, 0.9)",
+                1.5
+            ))
+        }
+    }, [hoverIndex, focusIndex, selections, proofStateId, proofStateLocation, overlayVersion])
 
-    // Handle mouse movement for hover
-    function handleMouseMove(e: React.MouseEvent) {
-         const svgEl = svgRef.current
-        if (!svgEl) return
+    // Convert a position on the screen to the coordinates of the SVG
+    function toSvgPoint(e: { clientX: number, clientY: number }): { x: number, y: number } | null {
+        const svgEl = svgRef.current
+        if (!svgEl) return null
 
         const rect = svgEl.getBoundingClientRect()
         const vb = svgEl.viewBox?.baseVal
-        if (!vb) return
+        if (!vb) return null
 
         const scaleX = vb.width / rect.width
         const scaleY = vb.height / rect.height
-        const mouseX = (e.clientX - rect.left) * scaleX + vb.x
-        const mouseY = (e.clientY - rect.top) * scaleY + vb.y
+        return {
+            x: (e.clientX - rect.left) * scaleX + vb.x,
+            y: (e.clientY - rect.top) * scaleY + vb.y
+        }
+    }
 
-        const idx = findSmallestAtPoint(mouseX, mouseY)
+    // Find smallest subexpression at a point
+    function findSmallestAtPoint(x: number, y: number): number {
+        return smallestCoveringSubExpression(subexprs, { x, y, width: 0, height: 0 }) ?? -1
+    }
+
+    // Find the smallest subexpression covering the area dragged over
+    function findDragCover(drag: DragState, e: { clientX: number, clientY: number }): number | null {
+        const end = toSvgPoint(e)
+        if (!end) return null
+        return smallestCoveringSubExpression(subexprs, {
+            x: Math.min(drag.start.x, end.x),
+            y: Math.min(drag.start.y, end.y),
+            width: Math.abs(end.x - drag.start.x),
+            height: Math.abs(end.y - drag.start.y)
+        })
+    }
+
+    // Start a drag, capturing the pointer so that the drag ends here even if it is released elsewhere
+    function handlePointerDown(e: React.PointerEvent<HTMLDivElement>) {
+        suppressClickRef.current = false
+        const start = toSvgPoint(e)
+        if (e.button !== 0 || !start) return
+
+        e.currentTarget.setPointerCapture(e.pointerId)
+        dragRef.current = { start, clientX: e.clientX, clientY: e.clientY, moved: false }
+    }
+
+    // Handle pointer movement for hover, or while dragging, highlight the subexpression the drag would select
+    function handlePointerMove(e: React.PointerEvent) {
+        const drag = dragRef.current
+        if (drag && !drag.moved &&
+            Math.hypot(e.clientX - drag.clientX, e.clientY - drag.clientY) >= DRAG_THRESHOLD) {
+            drag.moved = true
+        }
+        if (drag?.moved) {
+            setHoverIndex(findDragCover(drag, e))
+            return
+        }
+
+        const point = toSvgPoint(e)
+        if (!point) return
+        const idx = findSmallestAtPoint(point.x, point.y)
         setHoverIndex(idx >= 0 ? idx : null)
     }
 
-    // Handle click to toggle selection
+    // End a drag by selecting the smallest subexpression covering the dragged area. If the pointer
+    // hardly moved, the click that follows selects the subexpression under it instead.
+    function handlePointerUp(e: React.PointerEvent) {
+        const drag = dragRef.current
+        dragRef.current = null
+        if (!drag?.moved) return
+
+        suppressClickRef.current = true
+        setHoverIndex(null)
+        const idx = findDragCover(drag, e)
+        if (idx !== null) replaceSelection(null, idx)
+    }
+
+    // Handle click to toggle selection, or to grow (Alt) or shrink (Alt+Shift) the selection under the pointer
     function handleClick(e: React.MouseEvent) {
+        if (suppressClickRef.current) {
+            // The click ends a drag, which has made its selection already
+            suppressClickRef.current = false
+            e.preventDefault()
+            e.stopPropagation()
+            return
+        }
+
         if (!proofStateLocation) {
             console.warn("Cannot select: missing proofStateLocation context")
             return
         }
         
-        const svgEl = svgRef.current
-        if (!svgEl) { console.warn("SVG element not found"); return }
-        
-        const rect = svgEl.getBoundingClientRect()
-        const vb = svgEl.viewBox?.baseVal
-        if (!vb) { console.warn("SVG viewBox not found"); return }
-        
-        const scaleX = vb.width / rect.width
-        const scaleY = vb.height / rect.height
-        const mouseX = (e.clientX - rect.left) * scaleX + vb.x
-        const mouseY = (e.clientY - rect.top) * scaleY + vb.y
+        const point = toSvgPoint(e)
+        if (!point) { console.warn("SVG element or viewBox not found"); return }
 
-        const idx = findSmallestAtPoint(mouseX, mouseY)
+        const idx = findSmallestAtPoint(point.x, point.y)
         if (idx >= 0 && subexprs[idx]) {
-            const sub = subexprs[idx]
-            
             // Prevent parent statement from handling this click
             e.preventDefault()
             e.stopPropagation()
             
-            dispatch({
-                type: 'TOGGLE_SELECTION',
+            if (e.altKey) {
+                resizeSelection(idx, e.shiftKey ? "shrink" : "grow")
+            } else {
+                toggleSelection(idx)
+            }
+        }
+    }
+
+    function isSubExpressionSelected(sub: SubExpressionCore): boolean {
+        return proofStateLocation !== null && selections.some(selection =>
+            areProofStateIdsEqual(selection.proofStateId, proofStateId) &&
+            selection.location.kind === proofStateLocation.kind &&
+            selection.location.label === proofStateLocation.label &&
+            areStatementAddressesEqual(selection.address, address) &&
+            typeof selection.selection === "object" && "text" in selection.selection &&
+            areSubExpressionSelectionsEqual(selection.selection, { ...sub, index }))
+    }
+
+    function dispatchToggle(sub: SubExpressionCore) {
+        if (!proofStateLocation) return
+
+        dispatch({
+            type: 'TOGGLE_SELECTION',
+            selection: {
+                proofStateId,
+                location: proofStateLocation,
+                address,
                 selection: {
-                    proofStateId,
-                    location: proofStateLocation,
-                    address,
-                    selection: {
-                        text: sub.text,
-                        source_start: sub.source_start,
-                        source_end: sub.source_end,
-                        index
-                    }
+                    text: sub.text,
+                    source_start: sub.source_start,
+                    source_end: sub.source_end,
+                    index
                 }
-            })
+            }
+        })
+    }
+
+    function toggleSelection(idx: number) {
+        const sub = subexprs[idx]
+        if (!proofStateLocation || !sub) return
+
+        announce(`${isSubExpressionSelected(sub) ? "Deselected" : "Selected"} ${mathLabel(sub.text)}`)
+        dispatchToggle(sub)
+    }
+
+    // Select a subexpression in place of another one, or in addition to the current selections if `replaced` is `null`
+    function replaceSelection(replaced: number | null, idx: number) {
+        const sub = subexprs[idx]
+        if (!proofStateLocation || !sub || replaced === idx) return
+
+        const previous = replaced === null ? undefined : subexprs[replaced]
+        if (previous) dispatchToggle(previous)
+        if (!isSubExpressionSelected(sub)) dispatchToggle(sub)
+        announce(`Selected ${mathLabel(sub.text)}`)
+    }
+
+    /**
+     * Replace the innermost selected subexpression enclosing the given one by its parent when growing,
+     * or by its child towards the given one when shrinking. Without such a selection, growing selects
+     * the parent of the given subexpression and shrinking selects the subexpression itself.
+     *
+     * @returns The newly selected subexpression, or `null` if the selection cannot grow or shrink any further
+     */
+    function resizeSelection(idx: number, change: "grow" | "shrink"): number | null {
+        // Subexpressions with the same source are the same selection, so only the outermost of them is a step
+        const sameSource = (a: number, b: number) =>
+            subexprs[a]!.source_start === subexprs[b]!.source_start && subexprs[a]!.source_end === subexprs[b]!.source_end
+        const path = enclosingSubExpressions(parents, idx)
+            .filter((i, position, all) => position === all.length - 1 || !sameSource(i, all[position + 1]!))
+        const selected = path.findIndex(i => isSubExpressionSelected(subexprs[i]!))
+
+        let target: number | undefined
+        if (selected === -1) {
+            target = change === "grow" ? path[1] ?? path[0] : path[0]
+        } else if (change === "grow") {
+            target = path[selected + 1]
+        } else {
+            target = path[selected - 1] ??
+                childSubExpressions(subexprs, parents, path[selected]!).find(child => !sameSource(child, path[selected]!))
+        }
+
+        if (target === undefined) return null
+        replaceSelection(selected === -1 ? null : path[selected]!, target)
+        return target
+    }
+
+    // Move the keyboard cursor, reading out the subexpression it reaches as it is not focused itself
+    function moveFocus(idx: number | null) {
+        if (idx === focusIndex) return
+        setFocusIndex(idx)
+        const sub = idx === null ? undefined : subexprs[idx]
+        if (!sub) {
+            announce(mathLabel(input))
+        } else {
+            announce(isSubExpressionSelected(sub) ? `${mathLabel(sub.text)}, selected` : mathLabel(sub.text))
         }
     }
 
+    // Handle the arrow keys, moving along the nesting of subexpressions and leaving the expression
+    // for the enclosing statement or the neighbouring expressions once they reach its outside
+    function handleKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+        const element = e.currentTarget
+        const parent = focusIndex === null ? null : parents[focusIndex] ?? null
+        const siblings = focusIndex === null ? [] : childSubExpressions(subexprs, parents, parent)
+        const siblingPosition = focusIndex === null ? -1 : siblings.indexOf(focusIndex)
+
+        // With Shift, the up and down arrows grow or shrink the selection at the cursor, which follows it
+        if (e.shiftKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+            const start = focusIndex ?? subexprs.findIndex(sub => isSubExpressionSelected(sub))
+            if (start === -1) return
+            const target = resizeSelection(start, e.key === "ArrowUp" ? "grow" : "shrink")
+            if (target !== null) setFocusIndex(target)
+            e.preventDefault()
+            e.stopPropagation()
+            return
+        }
+
+        switch (e.key) {
+            case "Enter":
+            case " ":
+                if (focusIndex === null) return
+                toggleSelection(focusIndex)
+                break
+            case "Escape":
+                if (focusIndex === null) return
+                moveFocus(null)
+                break
+            case "ArrowUp":
+                if (focusIndex !== null) {
+                    moveFocus(parent)
+                } else {
+                    element.parentElement?.closest<HTMLElement>("[data-statement-address]")?.focus()
+                }
+                break
+            case "ArrowDown":
+                moveFocus(childSubExpressions(subexprs, parents, focusIndex)[0] ?? focusIndex)
+                break
+            case "ArrowLeft":
+            case "ArrowRight": {
+                const direction = e.key === "ArrowLeft" ? -1 : 1
+                if (focusIndex !== null) {
+                    moveFocus(siblings[siblingPosition + direction] ?? focusIndex)
+                } else {
+                    element.closest("[data-statement-address]")
+                        ?.querySelector<HTMLElement>(`[data-math-index="${index + direction}"]`)?.focus()
+                }
+                break
+            }
+            default:
+                return
+        }
+        e.preventDefault()
+        e.stopPropagation()
+    }
+
+    if (!compiler) {
+        console.warn("WASM not loaded yet")
+        return <>Loading...</>
+    }
+
+    if (!compileResult) {
+        // Show the source until the compiled expression arrives, so that the layout stays readable
+        return <span style={{ color: '#999', fontFamily: 'monospace' }} title="Compiling..." aria-busy="true">{input}</span>
+    }
+
+    if ("error" in compileResult) {
+        console.warn("Math compilation error:", compileResult.error)
+        return <div style={{ color: 'red', fontWeight: 'bold', padding: '8px' }}>
+            ERROR: {compileResult.error}
+        </div>
+    }
+
     return (
         <div
             ref={attachSvg}
-            onMouseMove={handleMouseMove}
-            onMouseLeave={() => setHoverIndex(null)}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => { dragRef.current = null }}
+            onPointerLeave={() => setHoverIndex(null)}
             onClick={handleClick}
-            style={{ display: "inline-block", position: "relative", cursor: "pointer" }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setFocusIndex(null)}
+            tabIndex={-1}
+            role="math"
+            aria-label={mathLabel(input)}
+            data-math-index={index}
+            style={{ display: "inline-block", position: "relative", cursor: "pointer", userSelect: "none" }}
         ></div>
     )
 }
\ No newline at end of file
@@ -2,7 +2,10 @@ import React, { JSX, useContext, useState } from "react"
 import { Statement } from "../core/ProofState"
 import { AtomicStatement } from "./AtomicStatement"
 import { StatementAddress, ProofStateSelectionContext, ProofStateLocationContext, areStatementAddressesEqual, StatementCoordinate } from "../core/ProofStateSelectionContext"
-import { ProofStateIdContext } from "../core/ProofDiscoveryStateContext"
+import { areProofStateIdsEqual, ProofStateIdContext } from "../core/ProofDiscoveryStateContext"
+import { StatementDiffContext } from "../core/ProofStateDiff"
+import { adjacentCoordinate, childCoordinates, formatStatementAddress } from "../core/StatementAddress"
+import { AnnouncementContext, describeStatement, statementLabel, statementRoleDescription } from "../core/StatementAccessibility"
 
 // Import generated logical symbol SVGs
 import conjunctionSvg from "../assets/logical-symbols/conjunction.svg"
@@ -13,11 +16,11 @@ import equivalenceSvg from "../assets/logical-symbols/equivalence.svg"
 import universalSvg from "../assets/logical-symbols/universal.svg"
 import existentialSvg from "../assets/logical-symbols/existential.svg"
 
-// SVG logical connectives - inline the imported SVGs
+// SVG logical connectives - inline the imported SVGs, described in words for screen readers
 const ConjunctionSymbol = () => (
     <img 
         src={conjunctionSvg} 
-        alt="∧" 
+        alt="and" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: '-0.2em', 
@@ -31,7 +34,7 @@ const ConjunctionSymbol = () => (
 const DisjunctionSymbol = () => (
     <img 
         src={disjunctionSvg} 
-        alt="∨" 
+        alt="or" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: '-0.2em', 
@@ -45,7 +48,7 @@ const DisjunctionSymbol = () => (
 const NegationSymbol = () => (
     <img 
         src={negationSvg} 
-        alt="¬" 
+        alt="not" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: 'middle', 
@@ -59,7 +62,7 @@ const NegationSymbol = () => (
 const ImplicationSymbol = () => (
     <img 
         src={implicationSvg} 
-        alt="⇒" 
+        alt="implies" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: '-0.2em', 
@@ -73,7 +76,7 @@ const ImplicationSymbol = () => (
 const EquivalenceSymbol = () => (
     <img 
         src={equivalenceSvg} 
-        alt="⇔" 
+        alt="if and only if" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: '-0.2em', 
@@ -87,7 +90,7 @@ const EquivalenceSymbol = () => (
 const UniversalSymbol = () => (
     <img 
         src={universalSvg} 
-        alt="∀" 
+        alt="for all" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: '-0.2em', 
@@ -101,7 +104,7 @@ const UniversalSymbol = () => (
 const ExistentialSymbol = () => (
     <img 
         src={existentialSvg} 
-        alt="∃" 
+        alt="there exists" 
         style={{ 
             display: 'inline-block', 
             verticalAlign: '-0.2em', 
@@ -112,6 +115,16 @@ const ExistentialSymbol = () => (
     />
 )
 
+/**
+ * Find the element of the statement at an address within the statement rendered around the given element,
+ * or `null` if there is none.
+ */
+function findStatement(element: HTMLElement, address: StatementAddress): HTMLElement | null {
+    const root = element.closest<HTMLElement>(`[data-statement-address="root"]`)
+    const selector = `[data-statement-address="${CSS.escape(formatStatementAddress(address))}"]`
+    return root?.matches(selector) ? root : root?.querySelector<HTMLElement>(selector) ?? null
+}
+
 /** Props for the `MathStatement` component. */
 export type MathStatementProps = {
     /** The location within the logical structure of a bigger statement where this statement is situated. */
@@ -124,43 +137,48 @@ export type MathStatementProps = {
  * Render a mathematical statement involving logical connectives.
  * 
  * Individual segments are hoverable and clickable to update the selection context.
+ * They can also be reached with the keyboard: Tab moves between whole statements, the arrow keys
+ * move to the parent (up), first child (down) or siblings (left and right) of the focused statement,
+ * and Enter or Space toggles its selection.
+ * 
+ * Each segment is labelled for screen readers with its kind and text, and toggling a selection is announced.
  * 
  * @param props - `MathStatementProps`
  * @param props.address - The location within the logical structure of a bigger statement
  * @param props.statement - The statement to render
  * 
  * @returns A JSX element containing the rendered statement
+ * 
+ * @remarks
+ * - Announces selections through `AnnouncementContext`, which `AnnouncementRegion` provides
  */
 export function MathStatement({ address, statement }: MathStatementProps): JSX.Element {
     const { selections, dispatch } = useContext(ProofStateSelectionContext)
     const proofStateLocation = useContext(ProofStateLocationContext)
     const proofStateId = useContext(ProofStateIdContext)
+    const changedAddresses = useContext(StatementDiffContext)
+    const announce = useContext(AnnouncementContext)
     const [isHovered, setIsHovered] = useState<boolean>(false)
 
+    // Check if current statement changed with respect to the previous proof state
+    const isChanged = changedAddresses.some(changed => areStatementAddressesEqual(changed, address))
+
     // Check if current statement is selected
     const isSelected = selections.some(sel => 
-        sel.proofStateId === proofStateId &&
+        areProofStateIdsEqual(sel.proofStateId, proofStateId) &&
         sel.location.kind === proofStateLocation?.kind &&
         sel.location.label === proofStateLocation?.label &&
         areStatementAddressesEqual(sel.address, address) &&
         sel.selection === statement
     )
 
-    // Handle click to toggle selection
-    const handleClick = (e: React.MouseEvent) => {
-        // Don't stop propagation - allow child expressions to handle clicks first
-        // Only handle if the click wasn't already handled by a child
-        if (e.defaultPrevented) {
-            return
-        }
-        
-        e.preventDefault() // Mark as handled
-        
+    const toggleSelection = () => {
         if (!proofStateLocation) {
             console.warn("Cannot select: missing proofStateLocation context")
             return
         }
         
+        announce(`${isSelected ? "Deselected" : "Selected"} ${describeStatement(statement)}`)
         dispatch({
             type: 'TOGGLE_SELECTION',
             selection: {
@@ -172,6 +190,56 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
         })
     }
 
+    // Handle click to toggle selection
+    const handleClick = (e: React.MouseEvent) => {
+        // Don't stop propagation - allow child expressions to handle clicks first
+        // Only handle if the click wasn't already handled by a child
+        if (e.defaultPrevented) {
+            return
+        }
+        
+        e.preventDefault() // Mark as handled
+        toggleSelection()
+    }
+
+    // Handle keys when this statement itself has the focus, moving along the statement address tree
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+        if (e.target !== e.currentTarget) {
+            return
+        }
+
+        const element = e.currentTarget
+        let target: HTMLElement | null = null
+        switch (e.key) {
+            case "Enter":
+            case " ":
+                e.preventDefault()
+                toggleSelection()
+                return
+            case "ArrowUp":
+                target = address.length > 0 ? findStatement(element, address.slice(0, -1)) : null
+                break
+            case "ArrowDown": {
+                const [first] = childCoordinates(statement)
+                target = first
+                    ? findStatement(element, [...address, first])
+                    : element.querySelector<HTMLElement>("[data-math-index]")
+                break
+            }
+            case "ArrowLeft":
+            case "ArrowRight": {
+                const coord = address[address.length - 1]
+                const sibling = coord && adjacentCoordinate(coord, e.key === "ArrowLeft" ? -1 : 1)
+                target = sibling ? findStatement(element, [...address.slice(0, -1), sibling]) : null
+                break
+            }
+            default:
+                return
+        }
+        e.preventDefault()
+        target?.focus()
+    }
+
     // Handle hover
     const handleMouseEnter = (e: React.MouseEvent) => {
         e.stopPropagation()
@@ -182,6 +250,21 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
         setIsHovered(false)
     }
 
+    // Handlers and attributes shared by all kinds of statements. Only whole statements are reached
+    // with Tab; their parts are reached with the arrow keys. Screen readers read out the kind and text
+    // of the focused statement, and whether it is selected.
+    const segmentProps = {
+        role: "group",
+        "aria-roledescription": statementRoleDescription(statement),
+        "aria-label": isSelected ? `${statementLabel(statement)}, selected` : statementLabel(statement),
+        onClick: handleClick,
+        onMouseEnter: handleMouseEnter,
+        onMouseLeave: handleMouseLeave,
+        onKeyDown: handleKeyDown,
+        tabIndex: address.length === 0 ? 0 : -1,
+        "data-statement-address": formatStatementAddress(address)
+    }
+
     // Helper to render a child statement with updated address
     const renderChild = (child: Statement, coord: StatementCoordinate): JSX.Element => {
         return <MathStatement address={[...address, coord]} statement={child} />
@@ -194,10 +277,10 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
         borderRadius: '3px',
         backgroundColor: isSelected 
             ? 'rgba(33, 150, 243, 0.2)' 
-            : (isHovered ? 'rgba(33, 150, 243, 0.08)' : 'transparent'),
-        border: isSelected 
-            ? '1px solid rgba(33, 150, 243, 0.6)' 
-            : (isHovered ? '1px solid rgba(33, 150, 243, 0.3)' : '1px solid transparent'),
+            : (isHovered ? 'rgba(33, 150, 243, 0.08)' : (isChanged ? 'rgba(245, 158, 11, 0.15)' : 'transparent')),
+        border: isSelected
+            ? '1px solid rgba(33, 150, 243, 0.6)'
+            : (isHovered ? '1px solid rgba(33, 150, 243, 0.3)' : (isChanged ? '1px dashed rgba(245, 158, 11, 0.7)' : '1px solid transparent')),
         boxShadow: isSelected 
             ? '0 1px 2px rgba(0, 0, 0, 0.15), inset 0 1px 0 rgba(255, 255, 255, 0.3)' 
             : (isHovered ? '0 1px 1px rgba(0, 0, 0, 0.1), inset 0 1px 0 rgba(255, 255, 255, 0.2)' : 'none'),
@@ -212,9 +295,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
         return (
             <span 
                 style={segmentStyle}
-                onClick={handleClick}
-                onMouseEnter={handleMouseEnter}
-                onMouseLeave={handleMouseLeave}
+                {...segmentProps}
             >
                 <AtomicStatement address={address} input={statement} />
             </span>
@@ -226,9 +307,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     {statement.statements.map((stmt, idx) => (
                         <React.Fragment key={idx}>
@@ -244,9 +323,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     {statement.statements.map((stmt, idx) => (
                         <React.Fragment key={idx}>
@@ -262,9 +339,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     <NegationSymbol />
                     {renderChild(statement.statement, "negation")}
@@ -276,9 +351,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     {renderChild(statement.antecedent, "implication_antecedent")}
                     <ImplicationSymbol />
@@ -291,9 +364,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     {renderChild(statement.left, "equivalence_left")}
                     <EquivalenceSymbol />
@@ -306,9 +377,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     <UniversalSymbol />
                     <MathStatement address={[...address, "universal_var"]} statement={statement.variable.name} />
@@ -324,9 +393,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
             return (
                 <span 
                     style={segmentStyle}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     <ExistentialSymbol />
                     <MathStatement address={[...address, "existential_var"]} statement={statement.variable.name} />
@@ -346,9 +413,7 @@ export function MathStatement({ address, statement }: MathStatementProps): JSX.E
                         backgroundColor: 'rgba(250, 204, 21, 0.2)',
                         borderColor: 'rgba(250, 204, 21, 0.4)'
                     }}
-                    onClick={handleClick}
-                    onMouseEnter={handleMouseEnter}
-                    onMouseLeave={handleMouseLeave}
+                    {...segmentProps}
                 >
                     {renderChild(statement.statement, "highlight")}
                 </span>
@@ -0,0 +1,73 @@
+import React, { JSX, useContext } from "react"
+import { ProofDiscoveryStateContext } from "../core/ProofDiscoveryStateContext"
+import { ProofStateSelectionContext } from "../core/ProofStateSelectionContext"
+import { proofMoves } from "../core/Moves"
+
+/**
+ * Render the moves that apply to the current selections as a list of buttons.
+ *
+ * Only selections within the current node of the proof discovery graph are taken into account.
+ * Choosing a move dispatches a `transition` to the resulting proof state and clears the selections.
+ *
+ * @returns A JSX element containing the available moves
+ *
+ * @remarks
+ * - Requires `ProofDiscoveryStateContext` for reading the current proof state and dispatching transitions
+ * - Requires `ProofStateSelectionContext` for reading and clearing the selections
+ */
+export function MovePalette(): JSX.Element {
+    const { proofDiscoveryState, dispatchProofDiscoveryAction } = useContext(ProofDiscoveryStateContext)
+    const { selections, dispatch } = useContext(ProofStateSelectionContext)
+    const { graph, currentNodeId } = proofDiscoveryState
+
+    if (!graph.hasNode(currentNodeId)) {
+        return <div style={{ color: '#666', fontStyle: 'italic' }}>No proof state</div>
+    }
+
+    const proofState = graph.getNodeAttribute(currentNodeId, 'proofState')
+    const relevantSelections = selections.filter(sel => sel.proofStateId.proofNodeId === currentNodeId)
+
+    if (relevantSelections.length === 0) {
+        return <div style={{ color: '#666', fontStyle: 'italic' }}>Select part of the proof state to see the available moves</div>
+    }
+
+    const availableMoves = proofMoves.flatMap(({ name, apply }) => {
+        const result = apply(proofState, relevantSelections)
+        return result ? [{ name, result }] : []
+    })
+
+    if (availableMoves.length === 0) {
+        return <div style={{ color: '#666', fontStyle: 'italic' }}>No moves apply to the current selection</div>
+    }
+
+    return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            {availableMoves.map(({ name, result }) => (
+                <button
+                    key={name}
+                    title={result.move.description}
+                    onClick={() => {
+                        dispatchProofDiscoveryAction({
+                            action: "transition",
+                            move: result.move,
+                            newProofState: result.newProofState
+                        })
+                        dispatch({ type: 'CLEAR_ALL_SELECTIONS' })
+                    }}
+                    style={{
+                        padding: '6px 12px',
+                        backgroundColor: '#eff6ff',
+                        color: '#1d4ed8',
+                        border: '1px solid #60a5fa',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '13px',
+                        fontWeight: '500'
+                    }}
+                >
+                    {name}
+                </button>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,125 @@
+import React, { JSX, useContext, useState } from "react"
+import { ProofDiscoveryStateContext } from "../core/ProofDiscoveryStateContext"
+import { ProofState, Statement } from "../core/ProofStateZod"
+import { parseStatement, StatementParseError } from "../core/StatementParser"
+import { MathStatement } from "./MathStatement"
+
+/** The proof state of a new problem: a single goal without variables or hypotheses. */
+function initialProofState(statement: Statement): ProofState {
+    return [{ variables: [], hypotheses: [], goals: [{ label: "goal", statement }] }]
+}
+
+type ParseResult =
+    | { success: true, statement: Statement }
+    | { success: false, error: StatementParseError }
+    | null
+
+function tryParseStatement(text: string): ParseResult {
+    if (text.trim().length === 0) return null
+    try {
+        return { success: true, statement: parseStatement(text) }
+    } catch (e) {
+        if (e instanceof StatementParseError) return { success: false, error: e }
+        throw e
+    }
+}
+
+const fieldStyle: React.CSSProperties = {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '6px 8px',
+    border: '1px solid #ccc',
+    borderRadius: '5px',
+    fontSize: '14px'
+}
+
+/**
+ * Render a form for starting a proof discovery session on a new problem.
+ *
+ * The statement is entered as plain text, such as `forall x : $RR$, ($x > 0$ => exists y : $RR$, $y^2 = x$)`,
+ * and previewed as it is typed, with parse errors pointing at their position.
+ * Submitting the form dispatches `initialize` with a proof state whose single goal is the parsed statement.
+ *
+ * @returns A JSX element containing the form
+ *
+ * @remarks
+ * - Requires `ProofDiscoveryStateContext` for dispatching the `initialize` action
+ * - Requires `WasmContext` for previewing the statement
+ */
+export function NewProblemForm(): JSX.Element {
+    const { dispatchProofDiscoveryAction } = useContext(ProofDiscoveryStateContext)
+    const [title, setTitle] = useState("")
+    const [text, setText] = useState("")
+    const result = tryParseStatement(text)
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!result?.success) return
+        dispatchProofDiscoveryAction({
+            action: "initialize",
+            statement: title.trim().length > 0 ? title.trim() : text.trim(),
+            proofState: initialProofState(result.statement)
+        })
+        setTitle("")
+        setText("")
+    }
+
+    return (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            <label>
+                <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>Problem</div>
+                <input
+                    value={title}
+                    onChange={e => setTitle(e.target.value)}
+                    placeholder="Every positive real number has a square root"
+                    style={fieldStyle}
+                />
+            </label>
+            <label>
+                <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>Statement</div>
+                <textarea
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    placeholder="forall x : $RR$, ($x > 0$ => exists y : $RR$, $y^2 = x$)"
+                    rows={3}
+                    spellCheck={false}
+                    style={{ ...fieldStyle, fontFamily: 'monospace' }}
+                />
+            </label>
+            {result?.success === false && (
+                <div style={{ color: '#dc2626', fontSize: '13px' }}>
+                    <pre style={{ margin: '0 0 4px 0', whiteSpace: 'pre-wrap' }}>
+                        {text.slice(0, result.error.position)}
+                        <span style={{ backgroundColor: '#fecaca', borderBottom: '2px solid #dc2626' }}>
+                            {text.slice(result.error.position, result.error.position + 1) || ' '}
+                        </span>
+                        {text.slice(result.error.position + 1)}
+                    </pre>
+                    {result.error.message}
+                </div>
+            )}
+            {result?.success && (
+                <div style={{ padding: '10px', border: '1px solid #ddd', borderRadius: '5px', backgroundColor: '#fafafa' }}>
+                    <MathStatement address={[]} statement={result.statement} />
+                </div>
+            )}
+            <div>
+                <button
+                    type="submit"
+                    disabled={!result?.success}
+                    style={{
+                        padding: '6px 12px',
+                        backgroundColor: result?.success ? '#2196F3' : '#ccc',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: result?.success ? 'pointer' : 'default',
+                        fontSize: '14px'
+                    }}
+                >
+                    Start
+                </button>
+            </div>
+        </form>
+    )
+}
@@ -0,0 +1,214 @@
+import React, { JSX, useContext, useId, useMemo } from "react"
+import { MoveKind, ProofDiscoveryGraph as ProofDiscoveryGraphType, ProofNodeId, parentProofNodeId } from "../core/ProofDiscoveryState"
+import { ProofDiscoveryStateContext } from "../core/ProofDiscoveryStateContext"
+import { computeProofNodeStatuses, ProofNodeStatus, provingChain } from "../core/ProofStatus"
+
+// Dimensions of the rendered graph (in pixels)
+const NODE_RADIUS = 18
+const COLUMN_WIDTH = 64
+const ROW_HEIGHT = 80
+const PADDING = 30
+
+/** The position of a node in the layout, measured in columns and rows rather than pixels. */
+type NodePosition = { column: number, depth: number }
+
+/**
+ * Lay out the discovery graph as a tree rooted at the initial node.
+ *
+ * Every node is placed one row below the node it was reached from, leaves are assigned
+ * consecutive columns and inner nodes are centred above their children.
+ */
+function layoutProofDiscoveryGraph(graph: ProofDiscoveryGraphType): Map<ProofNodeId, NodePosition> {
+    const children = new Map<ProofNodeId, ProofNodeId[]>()
+    const roots: ProofNodeId[] = []
+
+    graph.forEachNode(node => {
+        const nodeId = Number(node)
+        const parent = parentProofNodeId(graph, nodeId)
+        if (parent === null) {
+            roots.push(nodeId)
+        } else {
+            children.set(parent, [...(children.get(parent) ?? []), nodeId])
+        }
+    })
+
+    const positions = new Map<ProofNodeId, NodePosition>()
+    let nextColumn = 0
+
+    const place = (nodeId: ProofNodeId, depth: number): number => {
+        const childIds = [...(children.get(nodeId) ?? [])].sort((a, b) => a - b)
+        let column: number
+        if (childIds.length === 0) {
+            column = nextColumn++
+        } else {
+            const childColumns = childIds.map(childId => place(childId, depth + 1))
+            column = (childColumns[0]! + childColumns[childColumns.length - 1]!) / 2
+        }
+        positions.set(nodeId, { column, depth })
+        return column
+    }
+
+    roots.sort((a, b) => a - b).forEach(root => place(root, 0))
+    return positions
+}
+
+/** Stroke styles for the edges of the graph, indexed by the kind of move they record. */
+const edgeStyles: Record<MoveKind, { stroke: string, strokeDasharray?: string }> = {
+    strengthening: { stroke: '#2563eb' },
+    weakening: { stroke: '#c2410c' },
+    equivalence: { stroke: '#334155' },
+    other: { stroke: '#9ca3af', strokeDasharray: '2 4' }
+}
+
+/** Fill colours for the nodes of the graph, indexed by their proof status. */
+const nodeFills: Record<ProofNodeStatus["kind"], string> = {
+    open: '#eff6ff',
+    proved: '#dcfce7',
+    closed: '#86efac'
+}
+
+/**
+ * Render the proof discovery graph with one node per proof state and one edge per move.
+ *
+ * Strengthening and weakening moves are drawn as directed arrows, equivalences as undirected lines
+ * and all other moves as grayed, dotted lines. The current node is highlighted, and clicking
+ * on a node focuses it.
+ *
+ * Nodes are coloured by their proof status, and the branch through which the initial
+ * proof state is proved, if any, is drawn in green.
+ *
+ * @returns A JSX element containing the rendered graph as an SVG
+ *
+ * @remarks
+ * - Requires `ProofDiscoveryStateContext` for reading the graph and dispatching `focus` actions
+ */
+export function ProofDiscoveryGraph(): JSX.Element {
+    const { proofDiscoveryState, dispatchProofDiscoveryAction } = useContext(ProofDiscoveryStateContext)
+    const { graph, currentNodeId } = proofDiscoveryState
+    // Marker IDs must be unique within the document
+    const markerId = `proof-discovery-arrow-${useId()}`
+
+    // The graph is never modified in place, so the layout only changes along with its identity
+    const positions = useMemo(() => layoutProofDiscoveryGraph(graph), [graph])
+    const statuses = useMemo(() => computeProofNodeStatuses(graph), [graph])
+
+    if (graph.order === 0) {
+        return <div style={{ color: '#666', fontStyle: 'italic' }}>No proof states yet</div>
+    }
+
+    const columns = Math.max(...[...positions.values()].map(p => p.column)) + 1
+    const rows = Math.max(...[...positions.values()].map(p => p.depth)) + 1
+
+    // Consecutive nodes in the chain proving the initial proof state
+    const rootChain = provingChain(statuses, 0)
+    const isOnRootChain = (source: ProofNodeId, target: ProofNodeId) =>
+        rootChain.some((nodeId, idx) => idx > 0 &&
+            ((rootChain[idx - 1] === source && nodeId === target) || (rootChain[idx - 1] === target && nodeId === source)))
+
+    const centre = (nodeId: ProofNodeId) => {
+        const { column, depth } = positions.get(nodeId)!
+        return { x: PADDING + column * COLUMN_WIDTH, y: PADDING + depth * ROW_HEIGHT }
+    }
+
+    const edges: JSX.Element[] = []
+    graph.forEachEdge((edge, move, source, target, _sourceAttributes, _targetAttributes, undirected) => {
+        const from = centre(Number(source))
+        const to = centre(Number(target))
+        const length = Math.hypot(to.x - from.x, to.y - from.y) || 1
+        // Shorten the line so that it ends at the boundary of the node circles
+        const dx = (to.x - from.x) / length * NODE_RADIUS
+        const dy = (to.y - from.y) / length * NODE_RADIUS
+        const style = edgeStyles[move.kind]
+        const isArrow = !undirected && move.kind !== "other"
+        const isProving = isOnRootChain(Number(source), Number(target))
+
+        edges.push(
+            <line
+                key={edge}
+                x1={from.x + dx}
+                y1={from.y + dy}
+                x2={to.x - dx}
+                y2={to.y - dy}
+                stroke={isProving ? '#16a34a' : style.stroke}
+                strokeWidth={isProving ? 3 : 1.5}
+                strokeDasharray={style.strokeDasharray}
+                markerEnd={isArrow ? `url(#${markerId}-${move.kind})` : undefined}
+            >
+                <title>{`${move.kind}: ${move.description}`}</title>
+            </line>
+        )
+    })
+
+    const nodes: JSX.Element[] = []
+    graph.forEachNode((node, { proofState }) => {
+        const nodeId = Number(node)
+        const { x, y } = centre(nodeId)
+        const isCurrent = nodeId === currentNodeId
+        const goalCount = proofState.reduce((count, context) => count + context.goals.length, 0)
+        const status = statuses.get(nodeId)?.kind ?? "open"
+
+        nodes.push(
+            <g
+                key={node}
+                onClick={() => dispatchProofDiscoveryAction({ action: "focus", nodeId })}
+                style={{ cursor: 'pointer' }}
+            >
+                <title>{`Proof state ${nodeId} (${status}): ${goalCount} goal${goalCount !== 1 ? 's' : ''} remaining`}</title>
+                <circle
+                    cx={x}
+                    cy={y}
+                    r={NODE_RADIUS}
+                    fill={isCurrent ? '#2563eb' : nodeFills[status]}
+                    stroke={status === "open" ? '#1d4ed8' : '#16a34a'}
+                    strokeWidth={isCurrent ? 2.5 : 1.5}
+                />
+                <text
+                    x={x}
+                    y={y}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fontSize={13}
+                    fontWeight={600}
+                    fill={isCurrent ? '#ffffff' : '#1d4ed8'}
+                    style={{ userSelect: 'none' }}
+                >
+                    {nodeId}
+                </text>
+            </g>
+        )
+    })
+
+    return (
+        <div>
+            <svg
+                width={2 * PADDING + (columns - 1) * COLUMN_WIDTH}
+                height={2 * PADDING + (rows - 1) * ROW_HEIGHT}
+                style={{ display: 'block', overflow: 'visible' }}
+            >
+                <defs>
+                    {(["strengthening", "weakening"] as const).map(kind => (
+                        <marker
+                            key={kind}
+                            id={`${markerId}-${kind}`}
+                            viewBox="0 0 10 10"
+                            refX={9}
+                            refY={5}
+                            markerWidth={7}
+                            markerHeight={7}
+                            orient="auto-start-reverse"
+                        >
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={edgeStyles[kind].stroke} />
+                        </marker>
+                    ))}
+                </defs>
+                {edges}
+                {nodes}
+            </svg>
+            {rootChain.length > 0 && (
+                <div style={{ color: '#16a34a', fontWeight: 'bold', fontSize: '14px' }}>
+                    ✓ The original statement is proved through proof state {rootChain[rootChain.length - 1]}
+                </div>
+            )}
+        </div>
+    )
+}
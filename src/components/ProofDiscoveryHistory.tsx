@@ -0,0 +1,88 @@
+import React, { JSX, useContext } from "react"
+import { ProofDiscoveryAction } from "../core/ProofDiscoveryState"
+import { canRedo, canUndo, ProofDiscoveryHistoryContext } from "../core/ProofDiscoveryHistoryContext"
+
+/** A short summary of an action for display in the history list. */
+function describeAction(action: ProofDiscoveryAction | null): string {
+    if (action === null) {
+        return "Start"
+    }
+    switch (action.action) {
+        case "initialize":
+            return `Initialize: ${action.statement}`
+        case "repair":
+            return `Repair proof state ${action.nodeId}`
+        case "focus":
+            return `Focus proof state ${action.nodeId}`
+        case "transition":
+            return `${action.move.kind}: ${action.move.description}`
+        case "finish":
+            return "Finish"
+    }
+}
+
+const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '5px 10px',
+    backgroundColor: enabled ? '#2196F3' : '#ccc',
+    color: 'white',
+    border: 'none',
+    borderRadius: '3px',
+    cursor: enabled ? 'pointer' : 'default',
+    fontSize: '12px'
+})
+
+/**
+ * Render the history of a proof discovery session with controls for undo, redo and jumping to a step.
+ *
+ * Steps that have been undone are grayed out and remain available for redo
+ * until a new action is dispatched.
+ *
+ * @returns A JSX element containing the history controls and the list of steps
+ *
+ * @remarks
+ * - Requires `ProofDiscoveryHistoryContext` for reading and navigating the history
+ */
+export function ProofDiscoveryHistory(): JSX.Element {
+    const { history, dispatchHistoryAction } = useContext(ProofDiscoveryHistoryContext)
+    const undoable = canUndo(history)
+    const redoable = canRedo(history)
+
+    return (
+        <div>
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '10px' }}>
+                <button
+                    disabled={!undoable}
+                    onClick={() => dispatchHistoryAction({ action: "undo" })}
+                    style={buttonStyle(undoable)}
+                >
+                    Undo
+                </button>
+                <button
+                    disabled={!redoable}
+                    onClick={() => dispatchHistoryAction({ action: "redo" })}
+                    style={buttonStyle(redoable)}
+                >
+                    Redo
+                </button>
+            </div>
+            <ol start={0} style={{ margin: 0, paddingLeft: '24px', fontSize: '13px' }}>
+                {history.steps.map((step, idx) => (
+                    <li
+                        key={idx}
+                        onClick={() => dispatchHistoryAction({ action: "jump", step: idx })}
+                        style={{
+                            cursor: 'pointer',
+                            padding: '2px 4px',
+                            borderRadius: '3px',
+                            color: idx > history.currentStep ? '#aaa' : '#333',
+                            fontWeight: idx === history.currentStep ? 'bold' : 'normal',
+                            backgroundColor: idx === history.currentStep ? 'rgba(33, 150, 243, 0.15)' : 'transparent'
+                        }}
+                    >
+                        {describeAction(step.action)}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    )
+}
@@ -4,16 +4,49 @@ import { MathStatement } from "./MathStatement"
 import { AtomicStatement } from "./AtomicStatement"
 import { ProofStateLocationContext } from "../core/ProofStateSelectionContext"
 import { ProofStateIdContext } from "../core/ProofDiscoveryStateContext"
+import { DiffStatus, LabelledStatementDiff, ProofStateContextDiff, ProofStateDiff, StatementDiffContext, VariableDiff } from "../core/ProofStateDiff"
+
+/** Additional styling of an entry of a proof state context according to how it changed. */
+const diffStyles: Record<DiffStatus, React.CSSProperties> = {
+    added: {
+        borderLeft: '3px solid #22c55e',
+        backgroundColor: 'rgba(34, 197, 94, 0.08)',
+        paddingLeft: '8px'
+    },
+    removed: {
+        borderLeft: '3px solid #ef4444',
+        backgroundColor: 'rgba(239, 68, 68, 0.08)',
+        paddingLeft: '8px',
+        opacity: 0.6,
+        textDecoration: 'line-through',
+        pointerEvents: 'none'
+    },
+    modified: {
+        borderLeft: '3px solid #f59e0b',
+        paddingLeft: '8px'
+    },
+    unchanged: {}
+}
 
 /**
  * Render a single proof state context with its variables, hypotheses, and goals.
  * 
- * @param proofContext - `ProofStateContext`
+ * When a diff is given, entries are styled according to how they changed,
+ * and removed entries are shown after the remaining ones.
+ *
+ * @param proofContext - `ProofStateContext`, optionally with the `diff` against the previous context
  * @returns A JSX element containing the rendered proof context
  */
-export function ProofStateContext(proofContext : ProofStateContextType): JSX.Element {
+export function ProofStateContext(proofContext : ProofStateContextType & { diff?: ProofStateContextDiff }): JSX.Element {
+    const variables: VariableDiff[] = proofContext.diff?.variables ??
+        proofContext.variables.map(variable => ({ status: "unchanged", variable }))
+    const hypotheses: LabelledStatementDiff[] = proofContext.diff?.hypotheses ??
+        proofContext.hypotheses.map(labelled => ({ status: "unchanged", labelled, changedAddresses: [] }))
+    const goals: LabelledStatementDiff[] = proofContext.diff?.goals ??
+        proofContext.goals.map(labelled => ({ status: "unchanged", labelled, changedAddresses: [] }))
+
     /** Render a context variable with its kind indicator */
-    const renderVariable = (variable: ContextVariable, idx: number): JSX.Element => {
+    const renderVariable = (variable: ContextVariable, status: DiffStatus, idx: number): JSX.Element => {
         let kindIndicator = ""
         let kindColor = "#b91c1c"
         
@@ -27,7 +60,7 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
 
         return (
             <ProofStateLocationContext.Provider value={{ kind: "variable", label: variable.name }} key={idx}>
-                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', ...diffStyles[status] }}>
                     {kindIndicator && (
                         <span style={{ 
                             color: kindColor, 
@@ -67,7 +100,7 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
         <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
 
             {/* Variables - Reddish */}
-            {proofContext.variables.length > 0 && (
+            {variables.length > 0 && (
                 <div style={{
                     backgroundColor: '#fef2f2',
                     border: '2px solid #fecaca',
@@ -90,13 +123,13 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
                         VARIABLES
                     </div>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-                        {proofContext.variables.map((variable, varIdx) => renderVariable(variable, varIdx))}
+                        {variables.map(({ status, variable }, varIdx) => renderVariable(variable, status, varIdx))}
                     </div>
                 </div>
             )}
 
             {/* Hypotheses - Orangeish */}
-            {proofContext.hypotheses.length > 0 && (
+            {hypotheses.length > 0 && (
                 <div style={{
                     backgroundColor: '#fff7ed',
                     border: '2px solid #fed7aa',
@@ -119,9 +152,9 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
                         HYPOTHESES
                     </div>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-                        {proofContext.hypotheses.map((hypothesis, hypIdx) => (
+                        {hypotheses.map(({ status, labelled: hypothesis, changedAddresses }, hypIdx) => (
                             <ProofStateLocationContext.Provider value={{ kind: "hypothesis", label: hypothesis.label }} key={hypIdx}>
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', ...diffStyles[status] }}>
                                     <span 
                                         style={{ 
                                             color: '#c2410c', 
@@ -135,7 +168,9 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
                                     </span>
                                     <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flex: 1 }}>
                                         <div style={{ flex: '1' }}>
-                                            <MathStatement address={[]} statement={hypothesis.statement} />
+                                            <StatementDiffContext.Provider value={changedAddresses}>
+                                                <MathStatement address={[]} statement={hypothesis.statement} />
+                                            </StatementDiffContext.Provider>
                                         </div>
                                         <span 
                                             style={{
@@ -161,7 +196,7 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
             )}
 
             {/* Goals - Blueish */}
-            {proofContext.goals.length > 0 && (
+            {goals.length > 0 && (
                 <div style={{
                     backgroundColor: '#eff6ff',
                     border: '2px solid #bfdbfe',
@@ -184,9 +219,9 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
                         GOALS
                     </div>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-                        {proofContext.goals.map((goal, goalIdx) => (
+                        {goals.map(({ status, labelled: goal, changedAddresses }, goalIdx) => (
                             <ProofStateLocationContext.Provider value={{ kind: "goal", label: goal.label }} key={goalIdx}>
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', ...diffStyles[status] }}>
                                     <span 
                                         style={{ 
                                             color: '#1d4ed8', 
@@ -200,7 +235,9 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
                                     </span>
                                     <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flex: 1 }}>
                                         <div style={{ flex: '1' }}>
-                                            <MathStatement address={[]} statement={goal.statement} />
+                                            <StatementDiffContext.Provider value={changedAddresses}>
+                                                <MathStatement address={[]} statement={goal.statement} />
+                                            </StatementDiffContext.Provider>
                                         </div>
                                         <span 
                                             style={{
@@ -230,24 +267,40 @@ export function ProofStateContext(proofContext : ProofStateContextType): JSX.Ele
 }
 
 
+/** Props for the `ProofState` component. */
+export type ProofStateProps = {
+    /** The proof state to render. */
+    proofState: ProofStateType
+    /** The changes with respect to a previous proof state, which are highlighted if given. */
+    diff?: ProofStateDiff
+}
+
 /**
  * Render a complete proof state with all its contexts.
  * 
  * Each context is rendered separately with appropriate context providers
  * for proof state ID and location tracking.
  * 
- * @param proofState - `ProofState`
+ * @param props - `ProofStateProps`
+ * @param props.proofState - The proof state to render
+ * @param props.diff - The changes with respect to a previous proof state, in which case removed contexts are shown as well
  * @returns A JSX element containing the rendered proof state
  */
-export function ProofState(proofState : ProofStateType): JSX.Element {
+export function ProofState({ proofState, diff }: ProofStateProps): JSX.Element {
     const { proofNodeId } = useContext(ProofStateIdContext)
+    const emptyContext: ProofStateContextType = { variables: [], hypotheses: [], goals: [] }
+    const contexts = diff
+        ? diff.map((contextDiff, idx) => ({ proofContext: proofState[idx] ?? emptyContext, contextDiff }))
+        : proofState.map(proofContext => ({ proofContext, contextDiff: undefined }))
 
     return (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '32px' }}>
-            {proofState.map((proofContext, idx) => (
+            {contexts.map(({ proofContext, contextDiff }, idx) => (
                 <ProofStateIdContext.Provider value={{ proofNodeId, proofContextId: idx }} key={idx}>
-                    <div style={{ position: 'relative' }}>
-                        <ProofStateContext {...proofContext} />
+                    <div style={{ position: 'relative', ...(contextDiff?.status === "removed" ? diffStyles.removed : {}) }}>
+                        {contextDiff
+                            ? <ProofStateContext {...proofContext} diff={contextDiff} />
+                            : <ProofStateContext {...proofContext} />}
                     </div>
                 </ProofStateIdContext.Provider>
             ))}
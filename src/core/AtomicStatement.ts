@@ -0,0 +1,109 @@
+/**
+ * A segment within an atomic statement, either plain text or a mathematical expression.
+ *
+ * `start` and `end` give the range of the segment in the atomic statement, including the dollar signs
+ * around math, so the content of a math segment starts at `start + 1`. The content of a text segment
+ * has its escaped dollar signs (`\$`) unescaped, while the content of a math segment is kept verbatim,
+ * as Typst math reads `\$` as a dollar sign itself.
+ */
+export type AtomicStatementSegment =
+  | { type: "text", content: string, start: number, end: number }
+  | { type: "math", content: string, start: number, end: number }
+
+/** A problem with the dollar signs of an atomic statement, located by a range of characters. */
+export type AtomicStatementDiagnostic = {
+  message: string
+  start: number
+  end: number
+}
+
+/**
+ * Split an atomic statement into segments, where a `$` preceded by a backslash does not delimit math.
+ * An unclosed `$` is kept as text rather than guessing where its math ends, and reported as a diagnostic,
+ * as is empty math (`$$`).
+ */
+function scanAtomicStatement(input: string): { segments: AtomicStatementSegment[], diagnostics: AtomicStatementDiagnostic[] } {
+  const segments: AtomicStatementSegment[] = []
+  const diagnostics: AtomicStatementDiagnostic[] = []
+  let text = ""
+  let textStart = 0
+
+  const endText = (end: number) => {
+    if (text.length > 0) segments.push({ type: "text", content: text, start: textStart, end })
+    text = ""
+  }
+
+  let pos = 0
+  while (pos < input.length) {
+    const char = input[pos]!
+    if (char === "\\" && input[pos + 1] === "$") {
+      text += "$"
+      pos += 2
+    } else if (char !== "$") {
+      text += char
+      pos++
+    } else {
+      const close = findClosingDollar(input, pos + 1)
+      if (close === -1) {
+        diagnostics.push({ message: "This `$` has no closing `$`.", start: pos, end: input.length })
+        text += input.slice(pos)
+        pos = input.length
+      } else if (close === pos + 1) {
+        diagnostics.push({ message: "This `$$` contains no math. Write `\\$\\$` for two dollar signs.", start: pos, end: close + 1 })
+        text += "$$"
+        pos = close + 1
+      } else {
+        endText(pos)
+        segments.push({ type: "math", content: input.slice(pos + 1, close), start: pos, end: close + 1 })
+        pos = close + 1
+        textStart = pos
+      }
+    }
+  }
+  endText(input.length)
+
+  return { segments, diagnostics }
+}
+
+/** Find the unescaped `$` closing math that starts at the given offset, or -1 if there is none. */
+function findClosingDollar(input: string, from: number): number {
+  for (let pos = from; pos < input.length; pos++) {
+    if (input[pos] === "\\") {
+      pos++
+    } else if (input[pos] === "$") {
+      return pos
+    }
+  }
+  return -1
+}
+
+/**
+ * Parse a string with mathematical expressions delimited by dollar signs ($), where `\$` in text stands for a dollar sign.
+ * Malformed input is read as far as it can be, with an unclosed `$` or an empty `$$` kept as text; `checkAtomicStatement` reports them.
+ *
+ * @param input - A string with math expressions like "The value $x + y$ equals $z$"
+ * @returns An array of segments alternating between text and math, with their ranges in the input
+ *
+ * @example
+ * parseAtomicStatement("The value $x + y$ equals $z$")
+ * // Returns: [
+ * //   { type: "text", content: "The value ", start: 0, end: 10 },
+ * //   { type: "math", content: "x + y", start: 10, end: 17 },
+ * //   { type: "text", content: " equals ", start: 17, end: 25 },
+ * //   { type: "math", content: "z", start: 25, end: 28 }
+ * // ]
+ */
+export function parseAtomicStatement(input: string): AtomicStatementSegment[] {
+  return scanAtomicStatement(input).segments
+}
+
+/**
+ * Report the problems with the dollar signs of an atomic statement, which is well-formed if there are none.
+ *
+ * @example
+ * checkAtomicStatement("costs \\$5 for $x")
+ * // Returns: [{ message: "This `$` has no closing `$`.", start: 14, end: 16 }]
+ */
+export function checkAtomicStatement(input: string): AtomicStatementDiagnostic[] {
+  return scanAtomicStatement(input).diagnostics
+}
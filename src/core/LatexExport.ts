@@ -0,0 +1,123 @@
+import { discoveryPath, moveKindExplanations, ProofDiscoveryState, ProofNodeId } from "./ProofDiscoveryState"
+import { ContextVariable, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { parseAtomicStatement } from "./AtomicStatement"
+import { renderStatement, StatementNotation } from "./StatementSyntax"
+import { typstMathToLatex } from "./TypstToLatex"
+
+/** Escape the characters that have a meaning in LaTeX text. */
+function escapeLatexText(text: string): string {
+  return text.replace(/[\\{}$&%#_~^]/g, char => {
+    switch (char) {
+      case "\\": return "\\textbackslash{}"
+      case "~": return "\\textasciitilde{}"
+      case "^": return "\\textasciicircum{}"
+      default: return `\\${char}`
+    }
+  })
+}
+
+/**
+ * Render an atomic statement as LaTeX text, converting its Typst math into LaTeX math.
+ * Math that cannot be converted is kept verbatim in a box marked as unconverted.
+ */
+function atomicToLatex(input: string): string {
+  return parseAtomicStatement(input).map(segment => {
+    if (segment.type === "text") return escapeLatexText(segment.content)
+    const converted = typstMathToLatex(segment.content)
+    return converted.success
+      ? `$${converted.latex}$`
+      : `\\fbox{unconverted Typst math: \\texttt{${escapeLatexText(segment.content)}}}`
+  }).join("")
+}
+
+/** LaTeX text for statements, with the connectives written as math symbols. */
+const latexNotation: StatementNotation = {
+  atomic: atomicToLatex,
+  conjunction: "$\\land$",
+  disjunction: "$\\lor$",
+  negation: "$\\lnot$",
+  implication: "$\\Rightarrow$",
+  equivalence: "$\\Leftrightarrow$",
+  universal: "$\\forall$",
+  existential: "$\\exists$",
+  highlight: rendered => `\\underline{${rendered}}`
+}
+
+/** Render a statement as LaTeX text, parenthesizing operands where the precedence of the connectives requires it. */
+export function statementToLatex(statement: Statement): string {
+  return renderStatement(statement, latexNotation)
+}
+
+/** Render a context variable as LaTeX text, marking meta variables with `?` and giving the value of let variables. */
+export function contextVariableToLatex(variable: ContextVariable): string {
+  const declaration = `${atomicToLatex(variable.name)} : ${atomicToLatex(variable.description)}`
+  switch (variable.kind) {
+    case "free":
+      return declaration
+    case "meta":
+      return `?${declaration} \\emph{(to be determined)}`
+    case "let":
+      return `${declaration} $\\coloneqq$ ${atomicToLatex(variable.value)}`
+  }
+}
+
+function itemize(items: string[]): string[] {
+  return ["\\begin{itemize}", ...items.map(item => `  ${item}`), "\\end{itemize}"]
+}
+
+/** Render a proof state context as LaTeX lists of variables, labelled hypotheses and labelled goals. */
+export function proofStateContextToLatex(context: ProofStateContext): string {
+  const lines: string[] = []
+  if (context.variables.length > 0) {
+    lines.push("\\paragraph{Variables}", ...itemize(context.variables.map(v => `\\item ${contextVariableToLatex(v)}`)))
+  }
+  if (context.hypotheses.length > 0) {
+    lines.push("\\paragraph{Hypotheses}", ...itemize(context.hypotheses.map(h =>
+      `\\item[(${escapeLatexText(h.label)})] ${statementToLatex(h.statement)}`)))
+  }
+  lines.push("\\paragraph{Goals}")
+  if (context.goals.length > 0) {
+    lines.push(...itemize(context.goals.map(g =>
+      `\\item[(${escapeLatexText(g.label)})] $\\vdash$ ${statementToLatex(g.statement)}`)))
+  } else {
+    lines.push("None left: this case is proved.")
+  }
+  return lines.join("\n")
+}
+
+/** Render a proof state as LaTeX, numbering its contexts as cases if there are several. */
+export function proofStateToLatex(proofState: ProofState): string {
+  if (proofState.length === 1) return proofStateContextToLatex(proofState[0]!)
+  if (proofState.length === 0) return "No goals left."
+  return proofState.map((context, idx) => `\\subsubsection*{Case ${idx + 1}}\n${proofStateContextToLatex(context)}`).join("\n\n")
+}
+
+/**
+ * Write the path of moves from the root node to the given node as a LaTeX document.
+ *
+ * @param state - The proof discovery session
+ * @param nodeId - The last node of the path, typically a node whose proof state is closed
+ * @returns The source of the LaTeX document
+ * @throws `Error` if the node does not exist
+ */
+export function discoveryPathToLatex(state: ProofDiscoveryState, nodeId: ProofNodeId): string {
+  const sections = discoveryPath(state.graph, nodeId).map(({ proofState, move }, idx) => [
+    move === null ? "\\subsection*{Initial proof state}" : `\\subsection*{Step ${idx}}`,
+    ...(move === null ? [] : [`\\textbf{Move} (${move.kind}: ${moveKindExplanations[move.kind]}): ${atomicToLatex(move.description)}`, ""]),
+    proofStateToLatex(proofState)
+  ].join("\n"))
+
+  return [
+    "\\documentclass{article}",
+    "\\usepackage{amssymb}",
+    "\\usepackage{mathtools}",
+    "",
+    "\\begin{document}",
+    "",
+    `\\section*{${atomicToLatex(state.statement)}}`,
+    "",
+    ...sections.flatMap(section => [section, ""]),
+    "\\end{document}",
+    ""
+  ].join("\n")
+}
@@ -0,0 +1,232 @@
+import { discoveryPath, moveKindExplanations, ProofDiscoveryState, ProofNodeId } from "./ProofDiscoveryState"
+import { ContextVariable, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { parseAtomicStatement } from "./AtomicStatement"
+import { operandPrecedence, statementPrecedence } from "./StatementSyntax"
+import { leanConnectives, leanTypstSymbols, subscriptDigits } from "./LeanSymbols"
+
+/** The result of converting Typst math: either the Lean expression, or the reason why it could not be converted. */
+export type TypstToLeanResult =
+  | { success: true, lean: string }
+  | { success: false, reason: string }
+
+/** Typst symbols and their Lean equivalents, the reverse of `leanTypstSymbols` along with the long names of shorthands. */
+const typstLeanSymbols = new Map<string, string>([
+  ...leanTypstSymbols.map(([lean, typst]) => [typst, lean] as const),
+  ["dot", "*"], ["lt", "<"], ["gt", ">"], ["lt.eq", "≤"], ["gt.eq", "≥"], ["eq.not", "≠"], ["arrow.r", "→"], ["arrow.r.bar", "↦"],
+  ["=>", "→"], ["<=>", "↔"]
+])
+
+/** Shorthands such as `<=`, matched before the single characters they start with. */
+const shorthands = [...typstLeanSymbols.keys()].filter(typst => !/^[A-Za-z]/.test(typst)).sort((a, b) => b.length - a.length)
+
+/**
+ * Best-effort conversion of Typst math into a Lean expression, the reverse of the translation used by the Lean import.
+ *
+ * Single letters, numbers, quoted names, operators, numeric subscripts and the symbols of `leanTypstSymbols`
+ * are understood. Anything else, such as `frac` or `abs`, makes the conversion fail.
+ */
+export function typstMathToLean(math: string): TypstToLeanResult {
+  const parts: string[] = []
+  let rest = math
+  while (rest.length > 0) {
+    const name = /^[A-Za-z][A-Za-z.]*/.exec(rest)?.[0].replace(/\.+$/, "")
+    const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(rest)
+    const subscript = /^_(?:(\d+)|\((\d+)\))/.exec(rest)
+    const shorthand = shorthands.find(typst => rest.startsWith(typst))
+    if (name !== undefined) {
+      const symbol = typstMathSymbol(name)
+      if (symbol === null) {
+        return { success: false, reason: `"${name}" has no Lean equivalent.` }
+      }
+      parts.push(symbol)
+      rest = rest.slice(name.length)
+    } else if (quoted) {
+      parts.push(quoted[1]!.replace(/\\(.)/g, "$1"))
+      rest = rest.slice(quoted[0].length)
+    } else if (subscript) {
+      parts.push([...(subscript[1] ?? subscript[2]!)].map(digit => subscriptDigits[Number(digit)]).join(""))
+      rest = rest.slice(subscript[0].length)
+    } else if (shorthand) {
+      parts.push(` ${typstLeanSymbols.get(shorthand)!} `)
+      rest = rest.slice(shorthand.length)
+    } else if (/^[_\\#&;{}"$]/.test(rest)) {
+      return { success: false, reason: `"${rest[0]}" has no Lean equivalent.` }
+    } else {
+      // Lean separates a function from its arguments by a space, as in `f (x)`
+      parts.push(rest[0] === "(" && /[\p{L}\p{N})]$/u.test(parts[parts.length - 1] ?? "") ? " (" : rest[0]!)
+      rest = rest.slice(1)
+    }
+  }
+  const lean = parts.join("").replace(/\s+/g, " ").replace(/ (⁻¹)/g, "$1").trim()
+  return lean.length > 0 ? { success: true, lean } : { success: false, reason: "The math is empty." }
+}
+
+/** The Lean equivalent of a name in Typst math: a single letter stands for itself, other names must be symbols. */
+function typstMathSymbol(name: string): string | null {
+  const symbol = typstLeanSymbols.get(name)
+  if (symbol !== undefined) return /^\p{L}+$/u.test(symbol) ? symbol : ` ${symbol} `
+  return name.length === 1 ? name : null
+}
+
+/** Keep text inside a Lean block comment from closing it. */
+function escapeLeanComment(text: string): string {
+  return text.replace(/-\//g, "- /").replace(/\/-/g, "/ -")
+}
+
+/** Translate an atomic statement made up of math only into Lean, or return `null` if it cannot be translated. */
+function atomicToLeanExpression(input: string): string | null {
+  const segments = parseAtomicStatement(input).filter(segment => segment.type === "math" || segment.content.trim().length > 0)
+  if (segments.length === 0 || segments.some(segment => segment.type === "text")) return null
+  const converted = segments.map(segment => typstMathToLean(segment.content))
+  return converted.every(result => result.success) ? converted.map(result => result.lean).join(" ") : null
+}
+
+/** Translate an atomic statement into Lean, leaving it as a marked `sorry` if it cannot be translated. */
+function atomicToLean(input: string): string {
+  const lean = atomicToLeanExpression(input)
+  return lean === null ? `sorry /- untranslated: ${escapeLeanComment(input)} -/` : lean
+}
+
+const leanIdentifierPattern = new RegExp(`^[\\p{L}_][\\p{L}\\p{N}_'${subscriptDigits}]*$`, "u")
+
+/** Translate a label or variable name into a Lean identifier, falling back to the given name with a marked comment. */
+function leanIdentifier(input: string, fallback: string): string {
+  const lean = atomicToLeanExpression(input) ?? input
+  return leanIdentifierPattern.test(lean) ? lean : `${fallback} /- untranslated: ${escapeLeanComment(input)} -/`
+}
+
+/** A Lean binder for a variable, with its type if it has a description. */
+function variableBinder(name: string, description: string): string {
+  const identifier = leanIdentifier(name, "x")
+  return description.trim().length === 0 ? identifier : `(${identifier} : ${atomicToLean(description)})`
+}
+
+/**
+ * Render a statement as a Lean proposition, parenthesizing operands where the precedence of the connectives requires it.
+ * Atomic statements that cannot be translated are left as `sorry` with the original statement in a comment.
+ */
+export function statementToLean(statement: Statement): string {
+  if (typeof statement === "string") return atomicToLean(statement)
+
+  const operand = (child: Statement, position: "left" | "right") => {
+    const rendered = statementToLean(child)
+    return statementPrecedence(child) >= operandPrecedence(statement, position) ? rendered : `(${rendered})`
+  }
+
+  switch (statement.kind) {
+    case "conjunction":
+    case "disjunction":
+      return statement.statements.map(child => operand(child, "left")).join(` ${leanConnectives[statement.kind]} `)
+    case "negation":
+      return `${leanConnectives.negation}${operand(statement.statement, "right")}`
+    case "implication":
+      return `${operand(statement.antecedent, "left")} ${leanConnectives.implication} ${operand(statement.consequent, "right")}`
+    case "equivalence":
+      return `${operand(statement.left, "left")} ${leanConnectives.equivalence} ${operand(statement.right, "right")}`
+    case "universal":
+    case "existential":
+      return `${leanConnectives[statement.kind]} ${variableBinder(statement.variable.name, statement.variable.description)}, ` +
+        operand(statement.statement, "right")
+    case "highlight":
+      return statementToLean(statement.statement)
+  }
+}
+
+/** The binders of the free and let variables of a context, where let variables come with a hypothesis giving their value. */
+function contextVariableBinders(variable: ContextVariable): string[] {
+  switch (variable.kind) {
+    case "free":
+      return [variableBinder(variable.name, variable.description)]
+    case "meta":
+      return []
+    case "let": {
+      const name = leanIdentifier(variable.name, "x")
+      const definition = leanIdentifierPattern.test(name) ? `${name}_def` : "x_def"
+      return [variableBinder(variable.name, variable.description), `(${definition} : ${name} = ${atomicToLean(variable.value)})`]
+    }
+  }
+}
+
+/** A proof state context as the binders and conclusion of a Lean theorem. */
+type LeanSignature = { binders: string[], conclusion: string }
+
+/**
+ * The binders of a context are its variables and labelled hypotheses, and its conclusion is the conjunction
+ * of its goals, existentially quantified over its meta variables. A proved context concludes `True`.
+ */
+function contextToLeanSignature(context: ProofStateContext): LeanSignature {
+  const binders = [
+    ...context.variables.flatMap(contextVariableBinders),
+    ...context.hypotheses.map((h, idx) => `(${leanIdentifier(h.label, `h${idx + 1}`)} : ${statementToLean(h.statement)})`)
+  ]
+  const goals: Statement = context.goals.length === 0 ? "$\"True\"$"
+    : context.goals.length === 1 ? context.goals[0]!.statement
+      : { kind: "conjunction", statements: context.goals.map(g => g.statement) }
+  const conclusion = context.variables.filter(v => v.kind === "meta").reduceRight<Statement>(
+    (statement, variable) => ({ kind: "existential", variable, statement }), goals)
+  return { binders, conclusion: statementToLean(conclusion) }
+}
+
+/** A proof state as a single Lean proposition, universally quantifying the binders of each context and joining the contexts. */
+function proofStateToLeanProposition(proofState: ProofState): string {
+  if (proofState.length === 0) return "True"
+  return proofState.map(context => {
+    const { binders, conclusion } = contextToLeanSignature(context)
+    const proposition = binders.length === 0 ? conclusion : `${leanConnectives.universal} ${binders.join(" ")}, ${conclusion}`
+    return proofState.length === 1 ? proposition : `(${proposition})`
+  }).join(` ${leanConnectives.conjunction} `)
+}
+
+/** The signature of a theorem for a proof state: the binders of its context if it has just one, otherwise no binders. */
+function proofStateToLeanSignature(proofState: ProofState): LeanSignature {
+  return proofState.length === 1 ? contextToLeanSignature(proofState[0]!) : { binders: [], conclusion: proofStateToLeanProposition(proofState) }
+}
+
+function leanTheorem(name: string, { binders, conclusion }: LeanSignature, proof: string[]): string {
+  return [
+    `theorem ${[name, ...binders].join(" ")} :`,
+    `    ${conclusion} := by`,
+    ...proof.map(line => `  ${line}`)
+  ].join("\n")
+}
+
+/**
+ * Write a proof state as a Lean 4 theorem with `sorry` as its proof.
+ *
+ * The variables and labelled hypotheses of a single context become the binders of the theorem
+ * and its goals the conclusion. A proof state with several contexts concludes their conjunction,
+ * each context quantifying its own variables and hypotheses.
+ *
+ * @param proofState - The proof state to formalize
+ * @param name - The name of the theorem
+ */
+export function proofStateToLeanTheorem(proofState: ProofState, name: string): string {
+  return leanTheorem(name, proofStateToLeanSignature(proofState), ["sorry"]) + "\n"
+}
+
+/**
+ * Write the path of moves from the root node to the given node as a Lean 4 theorem skeleton.
+ *
+ * The theorem states the initial proof state, and its proof outlines the path as one `have` step
+ * per move, stating the proof state it led to, with every proof left as `sorry`.
+ *
+ * @param state - The proof discovery session
+ * @param nodeId - The last node of the path, typically a node whose proof state is closed
+ * @param name - The name of the theorem
+ * @returns The Lean source
+ * @throws `Error` if the node does not exist
+ */
+export function discoveryPathToLean(state: ProofDiscoveryState, nodeId: ProofNodeId, name = "discovered"): string {
+  const [root, ...steps] = discoveryPath(state.graph, nodeId)
+  const outline = steps.flatMap(({ proofState, move }, idx) => [
+    `-- Step ${idx + 1} (${move!.kind}: ${moveKindExplanations[move!.kind]}): ${move!.description.replace(/\s+/g, " ")}`,
+    `have step${idx + 1} : ${proofStateToLeanProposition(proofState)} := by`,
+    "  sorry"
+  ])
+
+  return [
+    `/-- ${escapeLeanComment(state.statement)} -/`,
+    leanTheorem(name, proofStateToLeanSignature(root!.proofState), [...outline, "sorry"]),
+    ""
+  ].join("\n")
+}
@@ -0,0 +1,432 @@
+import { ProofDiscoveryAction } from "./ProofDiscoveryState"
+import { ContextVariable, LabelledStatement, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { leanConnectives, leanTypstSymbols, subscriptDigits } from "./LeanSymbols"
+
+/** An error raised when Lean goal text cannot be imported, with the line (counting from 1) where it occurred. */
+export class LeanImportError extends Error {
+  constructor(message: string, readonly line: number | null = null) {
+    super(line === null ? message : `Line ${line}: ${message}`)
+    this.name = "LeanImportError"
+  }
+}
+
+/** Symbols sorted so that longer ones are matched before their prefixes. */
+const symbolsByLength = [...leanTypstSymbols].sort(([a], [b]) => b.length - a.length)
+const greekLetters = new Map(leanTypstSymbols.filter(([lean]) => /^\p{Script=Greek}$/u.test(lean)))
+
+/** Translate a Lean identifier, turning subscript digits into a Typst subscript and quoting multi-letter names. */
+function identifierToTypst(identifier: string): string {
+  const match = new RegExp(`^(.*?)([${subscriptDigits}]*)$`, "u").exec(identifier)!
+  const base = match[1]!
+  const subscript = [...match[2]!].map(digit => subscriptDigits.indexOf(digit)).join("")
+  let typst: string
+  if ([...base].length === 1) {
+    typst = greekLetters.get(base) ?? base
+  } else {
+    typst = `"${base.replace(/["\\]/g, char => `\\${char}`)}"`
+  }
+  return subscript.length > 0 ? `${typst}_${subscript}` : typst
+}
+
+/**
+ * Translate a Lean expression into Typst math on a best-effort basis.
+ *
+ * Symbols are looked up in `leanTypstSymbols`, coercion arrows are dropped
+ * and names of more than one letter are kept as upright text.
+ */
+export function leanExpressionToTypstMath(expression: string): string {
+  const parts: string[] = []
+  let rest = expression
+  while (rest.length > 0) {
+    // A trailing dot ends a sentence rather than the identifier
+    const identifier = new RegExp(`^[\\p{L}_][\\p{L}\\p{N}_.'!?✝${subscriptDigits}]*`, "u").exec(rest)?.[0].replace(/\.+$/, "")
+    const symbol = symbolsByLength.find(([lean]) => rest.startsWith(lean))
+    // Letters such as `ε` are symbols on their own but may also start an identifier such as `ε₁`
+    if (symbol && !(identifier && identifier.length > symbol[0].length)) {
+      parts.push(/^[A-Za-z]/.test(symbol[1]) ? ` ${symbol[1]} ` : symbol[1])
+      rest = rest.slice(symbol[0].length)
+    } else if (identifier) {
+      parts.push(identifierToTypst(identifier))
+      rest = rest.slice(identifier.length)
+    } else if (rest.startsWith("↑")) {
+      rest = rest.slice(1)
+    } else {
+      parts.push(rest[0]!)
+      rest = rest.slice(1)
+    }
+  }
+  return parts.join("").replace(/\s+/g, " ").trim()
+}
+
+/** Wrap a Lean expression as an atomic statement with Typst math. */
+function atomic(expression: string): string {
+  return `$${leanExpressionToTypstMath(expression)}$`
+}
+
+type Token = { text: string, start: number, end: number }
+
+const connectiveTokens = ["∀", "∃", "¬", "∧", "∨", "→", "↔", "->", "<->", "(", ")", "{", "}", "[", "]", "⦃", "⦄", ",", ":"]
+const openBrackets: Record<string, string> = { "(": ")", "{": "}", "[": "]", "⦃": "⦄" }
+const binderRelations = [">", "<", "≥", "≤", "≠", "∈", "∉", "⊆", "⊂", "⊇", "⊃"]
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+  while (pos < text.length) {
+    if (/\s/.test(text[pos]!)) {
+      pos++
+      continue
+    }
+    const start = pos
+    // `∃!` is not a plain existential, so it is kept within an atom
+    const connective = text.startsWith("∃!", pos) ? undefined
+      : connectiveTokens.filter(c => text.startsWith(c, pos)).sort((a, b) => b.length - a.length)[0]
+    if (connective) {
+      pos += connective.length
+    } else {
+      while (pos < text.length && !/\s/.test(text[pos]!) &&
+        (pos === start || !connectiveTokens.some(c => text.startsWith(c, pos)))) {
+        pos++
+      }
+    }
+    tokens.push({ text: text.slice(start, pos), start, end: pos })
+  }
+  return tokens
+}
+
+/** A recursive descent parser for the logical structure of a Lean proposition. */
+class PropositionParser {
+  private pos = 0
+
+  constructor(private readonly text: string, private readonly tokens: Token[]) {}
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos]?.text
+  }
+
+  private isImplication(token: string | undefined): boolean {
+    return token === leanConnectives.implication || token === "->"
+  }
+
+  private isEquivalence(token: string | undefined): boolean {
+    return token === leanConnectives.equivalence || token === "<->"
+  }
+
+  parse(): Statement {
+    const statement = this.equivalence()
+    if (this.pos < this.tokens.length) {
+      throw new LeanImportError(`Unexpected "${this.peek()}".`)
+    }
+    return statement
+  }
+
+  private equivalence(): Statement {
+    const left = this.implication()
+    if (this.isEquivalence(this.peek())) {
+      this.pos++
+      return { kind: "equivalence", left, right: this.implication() }
+    }
+    return left
+  }
+
+  private implication(): Statement {
+    const antecedent = this.list("disjunction")
+    if (this.isImplication(this.peek())) {
+      this.pos++
+      return { kind: "implication", antecedent, consequent: this.implication() }
+    }
+    return antecedent
+  }
+
+  private list(kind: "conjunction" | "disjunction"): Statement {
+    const symbol = leanConnectives[kind]
+    const operand = () => kind === "disjunction" ? this.list("conjunction") : this.unary()
+    const statements = [operand()]
+    while (this.peek() === symbol) {
+      this.pos++
+      statements.push(operand())
+    }
+    return statements.length === 1 ? statements[0]! : { kind, statements }
+  }
+
+  private unary(): Statement {
+    const token = this.peek()
+    if (token === leanConnectives.negation) {
+      this.pos++
+      return { kind: "negation", statement: this.unary() }
+    }
+    if (token === leanConnectives.universal || token === leanConnectives.existential) {
+      this.pos++
+      return this.quantifier(token === leanConnectives.universal ? "universal" : "existential")
+    }
+    return this.atom()
+  }
+
+  /** The tokens up to the next top-level connective, with brackets kept balanced. */
+  private run(stop: (token: string) => boolean): Token[] {
+    const start = this.pos
+    const closers: string[] = []
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos]!.text
+      if (closers.length === 0 && (stop(token) || Object.values(openBrackets).includes(token))) break
+      if (openBrackets[token]) {
+        closers.push(openBrackets[token]!)
+      } else if (token === closers[closers.length - 1]) {
+        closers.pop()
+      }
+      this.pos++
+    }
+    if (closers.length > 0) {
+      throw new LeanImportError(`Missing "${closers[closers.length - 1]}".`)
+    }
+    return this.tokens.slice(start, this.pos)
+  }
+
+  private source(tokens: Token[]): string {
+    return tokens.length === 0 ? "" : this.text.slice(tokens[0]!.start, tokens[tokens.length - 1]!.end)
+  }
+
+  private atom(): Statement {
+    const tokens = this.run(token =>
+      [leanConnectives.conjunction, leanConnectives.disjunction].includes(token as "∧") ||
+      this.isImplication(token) || this.isEquivalence(token))
+    if (tokens.length === 0) {
+      throw new LeanImportError(this.peek() === undefined ? "Unexpected end of the proposition." : `Unexpected "${this.peek()}".`)
+    }
+    // A parenthesized proposition on its own is parsed for its structure
+    const first = tokens[0]!.text
+    if (first === "(" && this.closingIndex(tokens, 0) === tokens.length - 1) {
+      const inner = tokens.slice(1, -1)
+      return new PropositionParser(this.text, inner).parse()
+    }
+    return atomic(this.source(tokens))
+  }
+
+  /** The index of the bracket closing the one at the given index. */
+  private closingIndex(tokens: Token[], idx: number): number {
+    const closers: string[] = []
+    for (let i = idx; i < tokens.length; i++) {
+      const token = tokens[i]!.text
+      if (openBrackets[token]) {
+        closers.push(openBrackets[token]!)
+      } else if (token === closers[closers.length - 1]) {
+        closers.pop()
+        if (closers.length === 0) return i
+      }
+    }
+    return -1
+  }
+
+  private quantifier(kind: "universal" | "existential"): Statement {
+    const binderTokens = this.run(token => token === ",")
+    if (this.peek() !== ",") {
+      throw new LeanImportError(`Expected "," after the variables of ${kind === "universal" ? "∀" : "∃"}.`)
+    }
+    this.pos++
+    const body = this.equivalence()
+
+    const binders = this.binders(binderTokens)
+    return binders.reduceRight<Statement>((statement, { name, type, predicate }) => {
+      const guarded: Statement = predicate === null ? statement
+        : kind === "universal"
+          ? { kind: "implication", antecedent: predicate, consequent: statement }
+          : { kind: "conjunction", statements: [predicate, statement] }
+      return { kind, variable: { name: atomic(name), description: type === null ? "" : atomic(type) }, statement: guarded }
+    }, body)
+  }
+
+  /**
+   * The variables bound by a quantifier, written as `x y`, `x y : T`, `(x : T) (y : U)`
+   * or with a binder predicate such as `ε > 0`. Variables of unknown type get an empty description.
+   */
+  private binders(tokens: Token[]): { name: string, type: string | null, predicate: Statement | null }[] {
+    if (tokens.length === 0) {
+      throw new LeanImportError("A quantifier binds no variables.")
+    }
+    if (openBrackets[tokens[0]!.text]) {
+      const binders = []
+      let idx = 0
+      while (idx < tokens.length) {
+        const close = this.closingIndex(tokens, idx)
+        if (!openBrackets[tokens[idx]!.text] || close === -1) {
+          throw new LeanImportError(`Unexpected "${tokens[idx]!.text}" among the variables of a quantifier.`)
+        }
+        binders.push(...this.binders(tokens.slice(idx + 1, close)))
+        idx = close + 1
+      }
+      return binders
+    }
+
+    const colon = tokens.findIndex(token => token.text === ":")
+    const relation = tokens.findIndex(token => binderRelations.includes(token.text))
+    const split = colon !== -1 ? colon : relation
+    const names = (split === -1 ? tokens : tokens.slice(0, split)).map(token => token.text)
+    if (names.length === 0) {
+      throw new LeanImportError("A quantifier binds no variables.")
+    }
+    if (split === -1) {
+      return names.map(name => ({ name, type: null, predicate: null }))
+    }
+    const rest = this.source(tokens.slice(split + 1))
+    if (colon !== -1) {
+      return names.map(name => ({ name, type: rest, predicate: null }))
+    }
+    return names.map(name => ({ name, type: null, predicate: atomic(`${name} ${tokens[split]!.text} ${rest}`) }))
+  }
+}
+
+/**
+ * Parse a Lean proposition into a statement.
+ *
+ * Leading `∀` and `∃` binders and the connectives `¬`, `∧`, `∨`, `→` and `↔` become statement nodes,
+ * following the precedence and associativity of Lean. Everything else becomes atomic statements
+ * with the expression translated into Typst math.
+ *
+ * @throws `LeanImportError` if the brackets or binders of the proposition are malformed
+ */
+export function parseLeanProposition(text: string): Statement {
+  return new PropositionParser(text, tokenize(text)).parse()
+}
+
+/** Relations and connectives whose presence shows that the type of a hypothesis is a proposition. */
+const propositionSymbols = ["=", "<", ">", "≤", "≥", "≠", "∈", "∉", "⊆", "⊂", "∣", "∧", "∨", "¬", "↔", "∀", "∃", "True", "False"]
+
+/** Sorts, number types and type constructors, whose terms are values rather than proofs. */
+const knownTypePattern = /^(Prop|(Type|Sort)\b.*|ℕ|ℤ|ℚ|ℝ|ℂ|Nat|Int|Rat|Real|Complex|Bool|(Set|Finset|List|Multiset|Fin)\s.*)$/u
+
+/**
+ * Whether a local declaration is a hypothesis rather than a variable, which is decided by its type.
+ * Types containing relations or connectives are propositions, while known sorts and sets, and functions
+ * between them, are not. Only for other types, such as `p` or `Even n`, do the conventional hypothesis
+ * names `h…`, `H…` and `this` decide.
+ */
+function isHypothesis(name: string, type: string): boolean {
+  if (propositionSymbols.some(symbol => type.includes(symbol))) return true
+  if (type.split("→").every(part => knownTypePattern.test(part.trim()))) return false
+  return /^(h|H|this)/u.test(name)
+}
+
+/** Split a line of the form `x y : T` (or `x : T := v`) at its top-level colon. */
+function splitDeclaration(text: string): { names: string[], type: string, value: string | null } | null {
+  let depth = 0
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!
+    if ("([{⦃".includes(char)) depth++
+    if (")]}⦄".includes(char)) depth--
+    if (char === ":" && depth === 0 && text[i + 1] !== "=") {
+      const names = text.slice(0, i).trim().split(/\s+/).filter(name => name.length > 0)
+      if (names.length === 0) return null
+      const [type, ...value] = text.slice(i + 1).split(":=")
+      return { names, type: type!.trim(), value: value.length > 0 ? value.join(":=").trim() : null }
+    }
+  }
+  return null
+}
+
+/** The non-empty lines of goal text with their line numbers, where indented lines are joined to the line they continue. */
+function leanGoalEntries(text: string): { text: string, line: number }[] {
+  const entries: { text: string, line: number }[] = []
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (line.trim().length === 0) return
+    const previous = entries[entries.length - 1]
+    if (/^\s/.test(line) && previous) {
+      previous.text += ` ${line.trim()}`
+    } else {
+      entries.push({ text: line.trim(), line: idx + 1 })
+    }
+  })
+  return entries
+}
+
+/**
+ * Parse the goals shown by the Lean infoview into a proof state.
+ *
+ * Each goal becomes a context of its own, with the local declarations above it as variables
+ * (or let variables) and hypotheses, labelled by their names. The goal is labelled by its case name,
+ * or `goal` if it has none. Indented lines continue the previous line, and headers such as `2 goals`
+ * are skipped.
+ *
+ * @example
+ * parseLeanGoals("x : ℝ\nh : 0 < x\n⊢ ∀ ε > 0, ∃ δ > 0, δ < ε")
+ *
+ * @throws `LeanImportError` if a line cannot be understood or there is no goal
+ */
+export function parseLeanGoals(text: string): ProofState {
+  const entries = leanGoalEntries(text)
+  const contexts: ProofStateContext[] = []
+  let variables: ContextVariable[] = []
+  let hypotheses: LabelledStatement[] = []
+  let caseName: string | null = null
+  let hasGoal = false
+
+  const startContext = () => {
+    variables = []
+    hypotheses = []
+    caseName = null
+    hasGoal = false
+  }
+
+  for (const entry of entries) {
+    const wrap = <T,>(f: () => T): T => {
+      try {
+        return f()
+      } catch (e) {
+        throw e instanceof LeanImportError && e.line === null ? new LeanImportError(e.message, entry.line) : e
+      }
+    }
+
+    if (/^(\d+ goals?|no goals|goals accomplished.*)$/i.test(entry.text)) continue
+
+    if (entry.text.startsWith("case ")) {
+      if (hasGoal) startContext()
+      caseName = entry.text.slice("case ".length).trim()
+      continue
+    }
+
+    if (entry.text.startsWith(leanConnectives.turnstile)) {
+      const statement = wrap(() => parseLeanProposition(entry.text.slice(leanConnectives.turnstile.length).trim()))
+      contexts.push({ variables, hypotheses, goals: [{ label: caseName ?? "goal", statement }] })
+      hasGoal = true
+      continue
+    }
+
+    const declaration = splitDeclaration(entry.text)
+    if (declaration === null) {
+      throw new LeanImportError(`Expected a declaration such as "x : ℝ" or a goal starting with "⊢", but found "${entry.text}".`, entry.line)
+    }
+    if (hasGoal) startContext()
+    const { names, type, value } = declaration
+    for (const name of names) {
+      if (value === null && isHypothesis(name, type)) {
+        hypotheses = [...hypotheses, { label: name, statement: wrap(() => parseLeanProposition(type)) }]
+      } else {
+        const variable: ContextVariable = value === null
+          ? { kind: "free", name: atomic(name), description: atomic(type) }
+          : { kind: "let", name: atomic(name), description: atomic(type), value: atomic(value) }
+        variables = [...variables, variable]
+      }
+    }
+  }
+
+  if (contexts.length === 0) {
+    throw new LeanImportError("No goal starting with \"⊢\" was found.")
+  }
+  return contexts
+}
+
+/**
+ * Parse the goals shown by the Lean infoview into an action starting a new proof discovery session.
+ *
+ * @param text - The goals as shown by the infoview
+ * @param statement - The statement of the session, by default the Lean text of the first goal
+ * @throws `LeanImportError` if the goals cannot be parsed
+ */
+export function leanGoalsToInitializeAction(text: string, statement?: string): Extract<ProofDiscoveryAction, { action: "initialize" }> {
+  const proofState = parseLeanGoals(text)
+  const firstGoal = leanGoalEntries(text).find(entry => entry.text.startsWith(leanConnectives.turnstile))
+  return {
+    action: "initialize",
+    statement: statement ?? firstGoal!.text.slice(leanConnectives.turnstile.length).trim(),
+    proofState
+  }
+}
@@ -0,0 +1,36 @@
+/** Lean notation for the logical connectives of statements. */
+export const leanConnectives = {
+  conjunction: "∧",
+  disjunction: "∨",
+  negation: "¬",
+  implication: "→",
+  equivalence: "↔",
+  universal: "∀",
+  existential: "∃",
+  turnstile: "⊢"
+} as const
+
+/**
+ * Symbols of Lean expressions and the corresponding Typst math, used to translate
+ * atomic statements in both directions. Longer symbols come before their prefixes.
+ */
+export const leanTypstSymbols: [lean: string, typst: string][] = [
+  // Number sets
+  ["ℕ", "NN"], ["ℤ", "ZZ"], ["ℚ", "QQ"], ["ℝ", "RR"], ["ℂ", "CC"],
+  // Relations
+  ["≤", "<="], ["≥", ">="], ["≠", "!="], ["∉", "in.not"], ["∈", "in"], ["⊆", "subset.eq"], ["⊂", "subset"],
+  ["⊇", "supset.eq"], ["⊃", "supset"], ["∣", "divides"], ["≈", "approx"], ["≡", "equiv"],
+  // Operators
+  ["∪", "union"], ["∩", "sect"], ["\\", "without"], ["∘", "compose"], ["⁻¹", "^(-1)"], ["√", "sqrt"],
+  ["∑", "sum"], ["∏", "product"], ["∫", "integral"], ["•", "dot"], ["*", "dot"], ["∞", "oo"], ["∅", "emptyset"],
+  // Arrows within expressions, such as function types
+  ["↦", "|->"], ["→", "->"], ["×", "times"],
+  // Greek letters
+  ["α", "alpha"], ["β", "beta"], ["γ", "gamma"], ["δ", "delta"], ["ε", "epsilon"], ["ζ", "zeta"], ["η", "eta"],
+  ["θ", "theta"], ["ι", "iota"], ["κ", "kappa"], ["μ", "mu"], ["ν", "nu"], ["ξ", "xi"], ["π", "pi"], ["ρ", "rho"],
+  ["σ", "sigma"], ["τ", "tau"], ["φ", "phi"], ["χ", "chi"], ["ψ", "psi"], ["ω", "omega"],
+  ["Γ", "Gamma"], ["Δ", "Delta"], ["Θ", "Theta"], ["Λ", "Lambda"], ["Σ", "Sigma"], ["Φ", "Phi"], ["Ψ", "Psi"], ["Ω", "Omega"]
+]
+
+/** Unicode subscript digits, which Lean allows in identifiers such as `x₁`. */
+export const subscriptDigits = "₀₁₂₃₄₅₆₇₈₉"
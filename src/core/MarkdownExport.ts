@@ -0,0 +1,96 @@
+import { discoveryPath, moveKindExplanations, ProofDiscoveryState, ProofNodeId } from "./ProofDiscoveryState"
+import { ContextVariable, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { parseAtomicStatement } from "./AtomicStatement"
+import { renderStatement, StatementNotation } from "./StatementSyntax"
+import { typstMathToLatex } from "./TypstToLatex"
+
+/** Escape the characters that have a meaning in Markdown. */
+function escapeMarkdownText(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|$~]/g, char => `\\${char}`)
+}
+
+/**
+ * Render an atomic statement as Markdown with `$...$` math, converting its Typst math into LaTeX math.
+ * Math that cannot be converted is kept verbatim as code marked as unconverted.
+ */
+function atomicToMarkdown(input: string): string {
+  return parseAtomicStatement(input).map(segment => {
+    if (segment.type === "text") return escapeMarkdownText(segment.content)
+    const converted = typstMathToLatex(segment.content)
+    if (converted.success) return `$${converted.latex}$`
+    const fence = segment.content.includes("`") ? "``" : "`"
+    return `[unconverted Typst math: ${fence} ${segment.content} ${fence}]`
+  }).join("")
+}
+
+/** Markdown for statements, with the connectives written as math symbols. */
+const markdownNotation: StatementNotation = {
+  atomic: atomicToMarkdown,
+  conjunction: "$\\land$",
+  disjunction: "$\\lor$",
+  negation: "$\\lnot$",
+  implication: "$\\Rightarrow$",
+  equivalence: "$\\Leftrightarrow$",
+  universal: "$\\forall$",
+  existential: "$\\exists$",
+  highlight: rendered => `<mark>${rendered}</mark>`
+}
+
+/** Render a statement as Markdown, parenthesizing operands where the precedence of the connectives requires it. */
+export function statementToMarkdown(statement: Statement): string {
+  return renderStatement(statement, markdownNotation)
+}
+
+/** Render a context variable as Markdown, marking meta variables with `?` and giving the value of let variables. */
+export function contextVariableToMarkdown(variable: ContextVariable): string {
+  const declaration = `${atomicToMarkdown(variable.name)} : ${atomicToMarkdown(variable.description)}`
+  switch (variable.kind) {
+    case "free":
+      return declaration
+    case "meta":
+      return `?${declaration} *(to be determined)*`
+    case "let":
+      return `${declaration} $\\coloneqq$ ${atomicToMarkdown(variable.value)}`
+  }
+}
+
+/** Render a proof state context as Markdown lists of variables, labelled hypotheses and labelled goals. */
+export function proofStateContextToMarkdown(context: ProofStateContext): string {
+  const sections: string[] = []
+  if (context.variables.length > 0) {
+    sections.push("**Variables**", context.variables.map(v => `- ${contextVariableToMarkdown(v)}`).join("\n"))
+  }
+  if (context.hypotheses.length > 0) {
+    sections.push("**Hypotheses**", context.hypotheses.map(h =>
+      `- **${escapeMarkdownText(h.label)}**: ${statementToMarkdown(h.statement)}`).join("\n"))
+  }
+  sections.push("**Goals**", context.goals.length > 0
+    ? context.goals.map(g => `- **${escapeMarkdownText(g.label)}**: $\\vdash$ ${statementToMarkdown(g.statement)}`).join("\n")
+    : "*None left: this case is proved.*")
+  return sections.join("\n\n")
+}
+
+/** Render a proof state as Markdown, numbering its contexts as cases if there are several. */
+export function proofStateToMarkdown(proofState: ProofState): string {
+  if (proofState.length === 1) return proofStateContextToMarkdown(proofState[0]!)
+  if (proofState.length === 0) return "*No goals left.*"
+  return proofState.map((context, idx) => `#### Case ${idx + 1}\n\n${proofStateContextToMarkdown(context)}`).join("\n\n")
+}
+
+/**
+ * Write the path of moves from the root node to the given node as a Markdown document.
+ *
+ * @param state - The proof discovery session
+ * @param nodeId - The last node of the path, typically a node whose proof state is closed
+ * @returns The Markdown document
+ * @throws `Error` if the node does not exist
+ */
+export function discoveryPathToMarkdown(state: ProofDiscoveryState, nodeId: ProofNodeId): string {
+  const sections = discoveryPath(state.graph, nodeId).map(({ proofState, move }, idx) => [
+    move === null ? "## Initial proof state" : `## Step ${idx}`,
+    ...(move === null ? [] : [`**Move** (${move.kind}: ${moveKindExplanations[move.kind]}): ${atomicToMarkdown(move.description)}`]),
+    proofStateToMarkdown(proofState)
+  ].join("\n\n"))
+
+  return [`# ${atomicToMarkdown(state.statement)}`, ...sections].join("\n\n") + "\n"
+}
@@ -0,0 +1,150 @@
+/** A compiler of Typst math, resolving to the compilation response as JSON. */
+export type MathCompiler = {
+  /** Compile the math, unless the signal aborts the request first, in which case the promise rejects. */
+  compile: (input: string, signal?: AbortSignal) => Promise<string>
+}
+
+/** The error with which compilations reject when they are cancelled. */
+export function compilationCancelledError(): DOMException {
+  return new DOMException("The compilation was cancelled.", "AbortError")
+}
+
+/** Whether an error is due to the compilation being cancelled rather than failing. */
+export function isCompilationCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+/** Counters of a `MathCompilationCache` since it was created. */
+export type MathCompilationCacheStats = {
+  /** The number of requests answered from the cache or by joining a compilation already in progress. */
+  hits: number
+  misses: number
+  /** The number of results dropped to keep the cache within its maximum size. */
+  evictions: number
+  /** The number of results currently cached. */
+  size: number
+  maxSize: number
+}
+
+/** A math compiler that remembers its most recently used results. */
+export type MathCompilationCache = MathCompiler & {
+  /** Forget the result for one source, or every result if no source is given. */
+  invalidate: (input?: string) => void
+  stats: () => MathCompilationCacheStats
+}
+
+/** A compilation in progress, shared by every request for the same source until all of them are cancelled. */
+type PendingCompilation = {
+  promise: Promise<string>
+  controller: AbortController
+  requests: number
+}
+
+/**
+ * Wrap a math compiler in a cache of its results keyed by source, so that formulas appearing
+ * in many hypotheses, goals and graph nodes are only compiled once.
+ *
+ * Once `maxSize` results are cached, the least recently used one is dropped for each new result.
+ * Requests for a source that is being compiled share its compilation, which is only cancelled
+ * once every one of them is. Compilations that fail are not cached.
+ *
+ * @param compiler - The compiler whose results to cache
+ * @param maxSize - The maximum number of results to keep
+ */
+export function createMathCompilationCache(compiler: MathCompiler, maxSize = 1000): MathCompilationCache {
+  if (!Number.isInteger(maxSize) || maxSize < 1) {
+    throw new Error(`The cache size must be a positive integer, but is ${maxSize}.`)
+  }
+
+  // A `Map` iterates in insertion order, so re-inserting on every use keeps the least recently used result first
+  const results = new Map<string, string>()
+  const pending = new Map<string, PendingCompilation>()
+  let hits = 0
+  let misses = 0
+  let evictions = 0
+
+  const store = (input: string, result: string) => {
+    results.set(input, result)
+    if (results.size > maxSize) {
+      results.delete(results.keys().next().value!)
+      evictions++
+    }
+  }
+
+  const startCompilation = (input: string): PendingCompilation => {
+    const controller = new AbortController()
+    // Results arriving after the source was invalidated are passed on but not stored
+    const settle = () => {
+      const isCurrent = pending.get(input)?.controller === controller
+      if (isCurrent) pending.delete(input)
+      return isCurrent
+    }
+    const promise = compiler.compile(input, controller.signal).then(
+      result => {
+        if (settle()) store(input, result)
+        return result
+      },
+      (e: unknown) => {
+        settle()
+        throw e
+      })
+    const compilation = { promise, controller, requests: 0 }
+    pending.set(input, compilation)
+    return compilation
+  }
+
+  return {
+    compile: (input, signal) => {
+      if (signal?.aborted) return Promise.reject(compilationCancelledError())
+
+      const cached = results.get(input)
+      if (cached !== undefined) {
+        hits++
+        results.delete(input)
+        results.set(input, cached)
+        return Promise.resolve(cached)
+      }
+
+      let compilation = pending.get(input)
+      if (compilation) {
+        hits++
+      } else {
+        misses++
+        compilation = startCompilation(input)
+      }
+      const shared = compilation
+      shared.requests++
+
+      return new Promise<string>((resolve, reject) => {
+        const cancel = () => {
+          shared.requests--
+          if (shared.requests === 0) {
+            shared.controller.abort()
+            if (pending.get(input) === shared) pending.delete(input)
+          }
+          reject(compilationCancelledError())
+        }
+        signal?.addEventListener("abort", cancel, { once: true })
+        shared.promise.then(
+          result => {
+            signal?.removeEventListener("abort", cancel)
+            resolve(result)
+          },
+          (e: unknown) => {
+            signal?.removeEventListener("abort", cancel)
+            reject(e)
+          })
+      })
+    },
+    invalidate: input => {
+      if (input === undefined) {
+        results.clear()
+        pending.clear()
+      } else {
+        results.delete(input)
+        pending.delete(input)
+      }
+    },
+    stats: () => ({ hits, misses, evictions, size: results.size, maxSize })
+  }
+}
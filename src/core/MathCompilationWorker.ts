@@ -0,0 +1,58 @@
+/**
+ * A Web Worker compiling Typst math with the WASM compiler, answering the requests
+ * of `createWorkerMathCompiler` one at a time in the order in which they arrive.
+ */
+import init, { compile_math_with_subexpressions, init_panic_hook } from "../../pkg/typst_wasm.js"
+import { MathCompilationWorkerRequest, MathCompilationWorkerResponse } from "./MathCompilationWorkerClient"
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<MathCompilationWorkerRequest>) => void) | null
+  postMessage: (response: MathCompilationWorkerResponse) => void
+}
+
+const queue: { id: number, input: string }[] = []
+let ready = false
+let scheduled = false
+
+// Compile in separate tasks so that cancellations arriving in between are handled first
+function schedule() {
+  if (ready && !scheduled && queue.length > 0) {
+    scheduled = true
+    setTimeout(compileNext, 0)
+  }
+}
+
+function compileNext() {
+  scheduled = false
+  const request = queue.shift()
+  if (!request) return
+  try {
+    scope.postMessage({ type: "compiled", id: request.id, result: compile_math_with_subexpressions(request.input) })
+  } catch (e) {
+    scope.postMessage({ type: "error", id: request.id, error: String(e) })
+  }
+  schedule()
+}
+
+scope.onmessage = ({ data }) => {
+  switch (data.type) {
+    case "compile":
+      queue.push({ id: data.id, input: data.input })
+      schedule()
+      break
+    case "cancel": {
+      const idx = queue.findIndex(request => request.id === data.id)
+      if (idx !== -1) queue.splice(idx, 1)
+      break
+    }
+  }
+}
+
+init().then(
+  () => {
+    init_panic_hook()
+    ready = true
+    scope.postMessage({ type: "ready" })
+    schedule()
+  },
+  (e: unknown) => scope.postMessage({ type: "failed", error: String(e) }))
@@ -0,0 +1,108 @@
+import { compilationCancelledError, MathCompiler } from "./MathCompilationCache"
+
+/** A message from the main thread to the math compilation worker. */
+export type MathCompilationWorkerRequest =
+  | { type: "compile", id: number, input: string }
+  | { type: "cancel", id: number }
+
+/** A message from the math compilation worker to the main thread. */
+export type MathCompilationWorkerResponse =
+  | { type: "ready" }
+  | { type: "failed", error: string }
+  | { type: "compiled", id: number, result: string }
+  | { type: "error", id: number, error: string }
+
+/** A math compiler running in a Web Worker. */
+export type WorkerMathCompiler = MathCompiler & {
+  /** Resolves once the worker has loaded the WASM, or rejects if it could not. */
+  ready: Promise<void>
+  terminate: () => void
+}
+
+/**
+ * Compile math in a Web Worker running `MathCompilationWorker`.
+ *
+ * Requests are answered in the order in which they are made. Cancelling a request removes it
+ * from the queue of the worker, unless its compilation has already started. If the worker fails,
+ * `ready` and all requests are rejected.
+ *
+ * @param worker - The worker, which should not be used for anything else
+ */
+export function createWorkerMathCompiler(worker: Worker): WorkerMathCompiler {
+  const requests = new Map<number, { resolve: (result: string) => void, reject: (error: unknown) => void }>()
+  let nextId = 0
+  let failure: Error | null = null
+
+  const post = (request: MathCompilationWorkerRequest) => worker.postMessage(request)
+
+  const ready = new Promise<void>((resolve, reject) => {
+    // Once the worker has failed, every pending and future request fails with the same error
+    const fail = (error: Error) => {
+      if (failure) return
+      failure = error
+      requests.forEach(({ reject }) => reject(error))
+      requests.clear()
+      reject(error)
+    }
+
+    worker.addEventListener("message", ({ data }: MessageEvent<MathCompilationWorkerResponse>) => {
+      switch (data.type) {
+        case "ready":
+          resolve()
+          break
+        case "failed":
+          fail(new Error(`The math compiler could not be loaded: ${data.error}`))
+          break
+        case "compiled":
+          requests.get(data.id)?.resolve(data.result)
+          requests.delete(data.id)
+          break
+        case "error":
+          requests.get(data.id)?.reject(new Error(data.error))
+          requests.delete(data.id)
+          break
+      }
+    })
+    // Raised if the script of the worker cannot be loaded or throws, in which case no message ever arrives
+    worker.addEventListener("error", event => {
+      event.preventDefault()
+      fail(new Error(`The math compilation worker failed: ${event.message || "its script could not be loaded"}`))
+    })
+    worker.addEventListener("messageerror", () => {
+      fail(new Error("A message from the math compilation worker could not be read."))
+    })
+  })
+
+  return {
+    ready,
+    compile: (input, signal) => new Promise<string>((resolve, reject) => {
+      if (failure) return reject(failure)
+      if (signal?.aborted) return reject(compilationCancelledError())
+
+      const id = nextId++
+      const cancel = () => {
+        if (requests.delete(id)) {
+          post({ type: "cancel", id })
+          reject(compilationCancelledError())
+        }
+      }
+      signal?.addEventListener("abort", cancel, { once: true })
+      requests.set(id, {
+        resolve: result => {
+          signal?.removeEventListener("abort", cancel)
+          resolve(result)
+        },
+        reject: error => {
+          signal?.removeEventListener("abort", cancel)
+          reject(error)
+        }
+      })
+      post({ type: "compile", id, input })
+    }),
+    terminate: () => {
+      worker.terminate()
+      requests.forEach(({ reject }) => reject(compilationCancelledError()))
+      requests.clear()
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { ZodError } from "zod"
+import { proofMoves } from "./Moves"
+import { MoveOracleRequestSchema, MoveOracleResponse } from "./MoveOracle"
+
+/** The reply of the mock oracle to a request, as an HTTP status along with a JSON body. */
+export type MockMoveOracleReply =
+  | { status: 200, body: MoveOracleResponse }
+  | { status: 400, body: { error: string, issues: ZodError["issues"] } }
+  | { status: 422, body: { error: string } }
+
+/**
+ * Answer a move oracle request without an assistant, by trying the built-in moves in turn on the selections
+ * and replying with the first one of the requested kind, or with status 422 if there is none.
+ * Requests that are not a valid `MoveOracleRequest` are answered with status 400.
+ *
+ * @param data - The body of the request
+ */
+export function mockMoveOracleReply(data: unknown): MockMoveOracleReply {
+  const parsed = MoveOracleRequestSchema.safeParse(data)
+  if (!parsed.success) {
+    return { status: 400, body: { error: "Invalid request", issues: parsed.error.issues } }
+  }
+  const { proofState, selections, moveKind } = parsed.data
+  for (const { apply } of proofMoves) {
+    const result = apply(proofState, selections)
+    if (result && result.move.kind === moveKind) {
+      return { status: 200, body: result }
+    }
+  }
+  return { status: 422, body: { error: `No ${moveKind} move applies to the selections.` } }
+}
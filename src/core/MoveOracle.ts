@@ -0,0 +1,124 @@
+import axios, { AxiosInstance } from "axios"
+import { z, ZodError } from "zod"
+import { MoveKind, ProofDiscoveryAction } from "./ProofDiscoveryState"
+import { MoveDescriptionSchema, MoveKindSchema } from "./ProofDiscoveryStateZod"
+import { ProofState, ProofStateSchema, StatementSchema } from "./ProofStateZod"
+import { ProofStateSelection, StatementCoordinate } from "./ProofStateSelectionContext"
+
+/** What an oracle is asked: a move of the given kind from the proof state, guided by the selections. */
+export type MoveOracleRequest = {
+  proofState: ProofState
+  selections: ProofStateSelection[]
+  moveKind: MoveKind
+}
+
+const StatementCoordinateSchema: z.ZodType<StatementCoordinate> = z.union([
+  z.strictObject({ kind: z.literal("conjunction"), idx: z.number().int().nonnegative() }),
+  z.strictObject({ kind: z.literal("disjunction"), idx: z.number().int().nonnegative() }),
+  z.enum([
+    "implication_antecedent", "implication_consequent",
+    "negation",
+    "equivalence_left", "equivalence_right",
+    "universal_var", "existential_var",
+    "universal_var_type", "existential_var_type",
+    "universal_body", "existential_body",
+    "highlight"
+  ])
+])
+
+/**
+ * A selection within a proof state, as sent to an oracle.
+ *
+ * Only the shape is checked; a selection referring to a statement that the proof state does not have
+ * is ignored by the moves.
+ */
+export const ProofStateSelectionSchema: z.ZodType<ProofStateSelection> = z.strictObject({
+  proofStateId: z.strictObject({ proofNodeId: z.number().int(), proofContextId: z.number().int() }),
+  location: z.strictObject({ kind: z.enum(["variable", "variable_body", "hypothesis", "goal"]), label: z.string() }),
+  address: z.array(StatementCoordinateSchema),
+  selection: z.union([
+    StatementSchema,
+    z.strictObject({
+      text: z.string(),
+      source_start: z.number().int().nonnegative(),
+      source_end: z.number().int().nonnegative(),
+      index: z.number().int().nonnegative()
+    })
+  ])
+})
+
+/** The schema of an oracle request, for use by oracle servers. Unknown fields are rejected at every level. */
+export const MoveOracleRequestSchema = z.strictObject({
+  proofState: ProofStateSchema,
+  selections: z.array(ProofStateSelectionSchema),
+  moveKind: MoveKindSchema
+})
+
+/** The reply of an oracle. Unknown fields are rejected at every level, so that malformed replies are not silently accepted. */
+export const MoveOracleResponseSchema = z.strictObject({
+  move: MoveDescriptionSchema,
+  newProofState: ProofStateSchema
+})
+export type MoveOracleResponse = z.infer<typeof MoveOracleResponseSchema>
+
+/** An error raised when an oracle cannot be reached or replies with something other than a valid move. */
+export class MoveOracleError extends Error {
+  constructor(message: string, readonly issues: ZodError["issues"] = []) {
+    super(message)
+    this.name = "MoveOracleError"
+  }
+}
+
+/** A source of moves generated outside the app, for instance by an assistant proposing the next step. */
+export type MoveOracle = {
+  /**
+   * Ask for a move from the given proof state.
+   *
+   * @returns A `transition` to the proposed proof state, ready to be dispatched
+   * @throws `MoveOracleError` if no valid move could be obtained
+   */
+  proposeMove: (request: MoveOracleRequest) => Promise<Extract<ProofDiscoveryAction, { action: "transition" }>>
+}
+
+/**
+ * Check the reply of an oracle and turn it into a `transition`.
+ *
+ * @throws `MoveOracleError` listing the problems if the reply is not a valid `MoveOracleResponse`
+ */
+export function moveOracleResponseToTransition(data: unknown): Extract<ProofDiscoveryAction, { action: "transition" }> {
+  const parsed = MoveOracleResponseSchema.safeParse(data)
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => `${issue.path.join(".") || "reply"}: ${issue.message}`).join("; ")
+    throw new MoveOracleError(`The oracle replied with an invalid move (${details}).`, parsed.error.issues)
+  }
+  return { action: "transition", move: parsed.data.move, newProofState: parsed.data.newProofState }
+}
+
+/**
+ * Create an oracle that posts requests to an HTTP endpoint and expects a `MoveOracleResponse` as JSON.
+ *
+ * @param endpoint - The URL of the endpoint, or an axios instance whose base URL is the endpoint
+ * @returns The oracle
+ */
+export function createHttpMoveOracle(endpoint: string | AxiosInstance): MoveOracle {
+  const client = typeof endpoint === "string" ? axios.create({ baseURL: endpoint }) : endpoint
+  return {
+    proposeMove: async request => {
+      let data: unknown
+      try {
+        data = (await client.post("", request)).data
+      } catch (e) {
+        if (axios.isAxiosError(e) && e.response) {
+          const { error } = (e.response.data ?? {}) as { error?: unknown }
+          const reason = typeof error === "string" ? `: ${error}` : ""
+          throw new MoveOracleError(`The oracle rejected the request with status ${e.response.status}${reason}`)
+        }
+        if (axios.isAxiosError(e)) {
+          throw new MoveOracleError(`The oracle could not be reached (${e.message}).`)
+        }
+        throw e
+      }
+      return moveOracleResponseToTransition(data)
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import { MoveDescription } from "./ProofDiscoveryState"
+import { LabelledStatement, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { ProofStateSelection, StatementAddress } from "./ProofStateSelectionContext"
+import { isValidStatementAddress, replaceAtAddress, statementAtAddress } from "./StatementAddress"
+import { parseAtomicStatement } from "./AtomicStatement"
+import { SubExpressionCoreWithIndex } from "./SubExpression"
+import { applyTransformationAtAddress, StatementTransformation, statementTransformations } from "./StatementTransformations"
+
+/** The outcome of a move: the new proof state along with a description of how it was obtained. */
+export type MoveResult = {
+  move: MoveDescription
+  newProofState: ProofState
+}
+
+/**
+ * A move is a pure function that transforms a proof state based on the user's selections.
+ * It returns `null` when it does not apply to the given selections.
+ *
+ * The selections are assumed to refer to the given proof state,
+ * so only their `proofContextId` is taken into account.
+ */
+export type ProofMoveFunction = (proofState: ProofState, selections: ProofStateSelection[]) => MoveResult | null
+
+/** A move along with a short name for display in menus. */
+export type ProofMove = {
+  name: string
+  apply: ProofMoveFunction
+}
+
+/** A statement selected in its entirety (rather than a subexpression of a formula) within a hypothesis or goal. */
+type SelectedStatement = {
+  contextId: number
+  context: ProofStateContext
+  location: "hypothesis" | "goal"
+  labelled: LabelledStatement
+  address: StatementAddress
+  statement: Statement
+}
+
+/** Find the statement referred to by a selection, if it is a hypothesis or goal (or a part of one). */
+function resolveSelection(proofState: ProofState, selection: ProofStateSelection): SelectedStatement | null {
+  const { location, address } = selection
+  if (location.kind !== "hypothesis" && location.kind !== "goal") return null
+  if (typeof selection.selection === "object" && "text" in selection.selection) return null
+
+  const contextId = selection.proofStateId.proofContextId
+  const context = proofState[contextId]
+  if (!context) return null
+
+  const labelled = (location.kind === "goal" ? context.goals : context.hypotheses)
+    .find(s => s.label === location.label)
+  if (!labelled) return null
+
+  if (!isValidStatementAddress(labelled.statement, address)) return null
+
+  return { contextId, context, location: location.kind, labelled, address, statement: statementAtAddress(labelled.statement, address) }
+}
+
+/** Resolve the only selection, provided there is exactly one and it refers to an entire hypothesis or goal. */
+function singleSelection(proofState: ProofState, selections: ProofStateSelection[], location: "hypothesis" | "goal"): SelectedStatement | null {
+  if (selections.length !== 1) return null
+  const selected = resolveSelection(proofState, selections[0]!)
+  if (!selected || selected.location !== location || selected.address.length !== 0) return null
+  return selected
+}
+
+/** Replace one context of a proof state by zero or more contexts. */
+function replaceContext(proofState: ProofState, contextId: number, contexts: ProofStateContext[]): ProofState {
+  return [...proofState.slice(0, contextId), ...contexts, ...proofState.slice(contextId + 1)]
+}
+
+/** Replace one labelled statement in a list by zero or more labelled statements. */
+function replaceLabelled(statements: LabelledStatement[], label: string, replacements: LabelledStatement[]): LabelledStatement[] {
+  return statements.flatMap(s => s.label === label ? replacements : [s])
+}
+
+/** The first label of the form `${prefix}${n}` that is not yet used in the context. */
+function freshLabel(context: ProofStateContext, prefix: string): string {
+  const used = new Set([...context.hypotheses, ...context.goals].map(s => s.label))
+  let n = 1
+  while (used.has(`${prefix}${n}`)) n++
+  return `${prefix}${n}`
+}
+
+/**
+ * Introduce a universally quantified goal `∀ x : T. P` by fixing `x` as a free variable
+ * and proving `P` instead.
+ */
+export const introduceUniversal: ProofMoveFunction = (proofState, selections) => {
+  const selected = singleSelection(proofState, selections, "goal")
+  if (!selected || typeof selected.statement === "string" || selected.statement.kind !== "universal") return null
+
+  const { variable, statement } = selected.statement
+  const { context } = selected
+  // Renaming the bound variable would require substituting into formulas, which is not supported
+  if (context.variables.some(v => v.name === variable.name)) return null
+
+  return {
+    move: { kind: "equivalence", description: `Introduce ${variable.name} : ${variable.description} as an arbitrary variable` },
+    newProofState: replaceContext(proofState, selected.contextId, [{
+      ...context,
+      variables: [...context.variables, { kind: "free", ...variable }],
+      goals: replaceLabelled(context.goals, selected.labelled.label, [{ label: selected.labelled.label, statement }])
+    }])
+  }
+}
+
+/**
+ * Introduce an existentially quantified goal `∃ x : T. P` by turning `x` into a meta variable
+ * to be instantiated later and proving `P` instead.
+ */
+export const introduceExistential: ProofMoveFunction = (proofState, selections) => {
+  const selected = singleSelection(proofState, selections, "goal")
+  if (!selected || typeof selected.statement === "string" || selected.statement.kind !== "existential") return null
+
+  const { variable, statement } = selected.statement
+  const { context } = selected
+  if (context.variables.some(v => v.name === variable.name)) return null
+
+  return {
+    move: { kind: "equivalence", description: `Introduce ${variable.name} : ${variable.description} as a variable to be determined` },
+    newProofState: replaceContext(proofState, selected.contextId, [{
+      ...context,
+      variables: [...context.variables, { kind: "meta", ...variable }],
+      goals: replaceLabelled(context.goals, selected.labelled.label, [{ label: selected.labelled.label, statement }])
+    }])
+  }
+}
+
+/** Introduce an implication goal `A ⇒ B` by assuming `A` as a hypothesis and proving `B` instead. */
+export const introduceImplication: ProofMoveFunction = (proofState, selections) => {
+  const selected = singleSelection(proofState, selections, "goal")
+  if (!selected || typeof selected.statement === "string" || selected.statement.kind !== "implication") return null
+
+  const { antecedent, consequent } = selected.statement
+  const { context } = selected
+
+  return {
+    move: { kind: "equivalence", description: "Assume the hypothesis of the implication" },
+    newProofState: replaceContext(proofState, selected.contextId, [{
+      ...context,
+      hypotheses: [...context.hypotheses, { label: freshLabel(context, "h"), statement: antecedent }],
+      goals: replaceLabelled(context.goals, selected.labelled.label, [{ label: selected.labelled.label, statement: consequent }])
+    }])
+  }
+}
+
+/** Split a conjunction goal `A ∧ B ∧ ...` into one goal per conjunct. */
+export const splitConjunctionGoal: ProofMoveFunction = (proofState, selections) => {
+  const selected = singleSelection(proofState, selections, "goal")
+  if (!selected || typeof selected.statement === "string" || selected.statement.kind !== "conjunction") return null
+
+  const { label } = selected.labelled
+  const { context } = selected
+
+  return {
+    move: { kind: "equivalence", description: `Split the goal ${label} into ${selected.statement.statements.length} goals` },
+    newProofState: replaceContext(proofState, selected.contextId, [{
+      ...context,
+      goals: replaceLabelled(context.goals, label,
+        selected.statement.statements.map((statement, idx) => ({ label: `${label}.${idx + 1}`, statement })))
+    }])
+  }
+}
+
+/** Split a conjunction hypothesis `A ∧ B ∧ ...` into one hypothesis per conjunct. */
+export const splitConjunctionHypothesis: ProofMoveFunction = (proofState, selections) => {
+  const selected = singleSelection(proofState, selections, "hypothesis")
+  if (!selected || typeof selected.statement === "string" || selected.statement.kind !== "conjunction") return null
+
+  const { label } = selected.labelled
+  const { context } = selected
+
+  return {
+    move: { kind: "equivalence", description: `Split the hypothesis ${label} into ${selected.statement.statements.length} hypotheses` },
+    newProofState: replaceContext(proofState, selected.contextId, [{
+      ...context,
+      hypotheses: replaceLabelled(context.hypotheses, label,
+        selected.statement.statements.map((statement, idx) => ({ label: `${label}.${idx + 1}`, statement })))
+    }])
+  }
+}
+
+/** Reason by cases on a disjunction hypothesis `A ∨ B ∨ ...`, creating one proof context per disjunct. */
+export const casesOnDisjunction: ProofMoveFunction = (proofState, selections) => {
+  const selected = singleSelection(proofState, selections, "hypothesis")
+  if (!selected || typeof selected.statement === "string" || selected.statement.kind !== "disjunction") return null
+
+  const { label } = selected.labelled
+  const { context } = selected
+
+  return {
+    move: { kind: "equivalence", description: `Consider each case of the hypothesis ${label} separately` },
+    newProofState: replaceContext(proofState, selected.contextId,
+      selected.statement.statements.map(statement => ({
+        ...context,
+        hypotheses: replaceLabelled(context.hypotheses, label, [{ label, statement }])
+      })))
+  }
+}
+
+/** Prove a disjunction goal `A ∨ B ∨ ...` by proving the selected disjunct. */
+export const chooseDisjunct: ProofMoveFunction = (proofState, selections) => {
+  if (selections.length !== 1) return null
+  const selected = resolveSelection(proofState, selections[0]!)
+  if (!selected || selected.location !== "goal" || selected.address.length !== 1) return null
+
+  const [coord] = selected.address
+  if (typeof coord !== "object" || coord.kind !== "disjunction") return null
+
+  const { label } = selected.labelled
+  const { context } = selected
+
+  return {
+    move: { kind: "strengthening", description: `Prove disjunct ${coord.idx + 1} of the goal ${label}` },
+    newProofState: replaceContext(proofState, selected.contextId, [{
+      ...context,
+      goals: replaceLabelled(context.goals, label, [{ label, statement: selected.statement }])
+    }])
+  }
+}
+
+/** Split an atomic statement consisting of a single formula `$lhs = rhs$` into its two sides. */
+function parseEquation(statement: Statement): { lhs: string, rhs: string } | null {
+  if (typeof statement !== "string") return null
+  const segments = parseAtomicStatement(statement.trim())
+  if (segments.length !== 1 || segments[0]!.type !== "math") return null
+
+  // Only a lone `=`, not part of a longer operator such as `<=`, `!=` or `=>`
+  const sides = segments[0]!.content.split(/(?<![<>!=:])=(?![=>])/)
+  if (sides.length !== 2) return null
+  const [lhs, rhs] = sides.map(side => side.trim())
+  return (lhs && rhs) ? { lhs, rhs } : null
+}
+
+/** Parenthesize a formula unless it is a single identifier or number. */
+function parenthesize(formula: string): string {
+  return /^[\p{L}\p{N}.]+$/u.test(formula) ? formula : `(${formula})`
+}
+
+/**
+ * Rewrite a subexpression using an equation hypothesis `lhs = rhs`.
+ *
+ * Expects the equation hypothesis and a subexpression of a formula in another hypothesis or goal
+ * to be selected. The subexpression is replaced by the other side of the equation if it matches one side.
+ */
+export const rewriteWithEquation: ProofMoveFunction = (proofState, selections) => {
+  if (selections.length !== 2) return null
+  const equationIdx = selections.findIndex(s => resolveSelection(proofState, s)?.location === "hypothesis")
+  if (equationIdx < 0) return null
+
+  const equationSelection = selections[equationIdx]!
+  const targetSelection = selections[1 - equationIdx]!
+  const hypothesis = resolveSelection(proofState, equationSelection)!
+  const equation = hypothesis.address.length === 0 ? parseEquation(hypothesis.statement) : null
+  if (!equation) return null
+
+  const { location, address } = targetSelection
+  const subexpression = targetSelection.selection
+  if ((location.kind !== "hypothesis" && location.kind !== "goal") ||
+      typeof subexpression !== "object" || !("text" in subexpression) ||
+      targetSelection.proofStateId.proofContextId !== hypothesis.contextId) return null
+
+  const { context, contextId } = hypothesis
+  const statements = location.kind === "goal" ? context.goals : context.hypotheses
+  const target = statements.find(s => s.label === location.label)
+  if (!target || target === hypothesis.labelled) return null
+
+  if (!isValidStatementAddress(target.statement, address)) return null
+  const atomic = statementAtAddress(target.statement, address)
+  if (typeof atomic !== "string") return null
+
+  const text = subexpression.text.trim()
+  const replacement = text === equation.lhs ? equation.rhs : text === equation.rhs ? equation.lhs : null
+  if (replacement === null) return null
+
+  const rewritten = rewriteFormula(atomic, subexpression, parenthesize(replacement))
+  if (rewritten === null) return null
+
+  const newStatements = replaceLabelled(statements, target.label,
+    [{ label: target.label, statement: replaceAtAddress(target.statement, address, rewritten) }])
+
+  return {
+    move: { kind: "equivalence", description: `Rewrite $${text}$ as $${replacement}$ using ${hypothesis.labelled.label}` },
+    newProofState: replaceContext(proofState, contextId, [
+      location.kind === "goal" ? { ...context, goals: newStatements } : { ...context, hypotheses: newStatements }
+    ])
+  }
+}
+
+/** Replace a subexpression of one of the formulas of an atomic statement, or return `null` if it cannot be located. */
+function rewriteFormula(atomic: string, subexpression: SubExpressionCoreWithIndex, replacement: string): string | null {
+  const formula = parseAtomicStatement(atomic).filter(segment => segment.type === "math")[subexpression.index]
+  if (!formula || formula.content.substring(subexpression.source_start, subexpression.source_end) !== subexpression.text) {
+    return null
+  }
+  // The content of the formula starts after its opening `$`, and the text around it is kept as written
+  const contentStart = formula.start + 1
+  return atomic.substring(0, contentStart + subexpression.source_start) + replacement +
+    atomic.substring(contentStart + subexpression.source_end)
+}
+
+/**
+ * Turn a logical transformation into a move that applies it to the selected part of a hypothesis or goal.
+ *
+ * The move has the kind of the transformation. This is exact for equivalences, which all the built-in
+ * transformations are, as they keep the proof state equivalent wherever they are applied.
+ */
+export function transformationMove(transformation: StatementTransformation): ProofMoveFunction {
+  return (proofState, selections) => {
+    if (selections.length !== 1) return null
+    const selected = resolveSelection(proofState, selections[0]!)
+    if (!selected) return null
+
+    const { context, labelled, location } = selected
+    const transformed = applyTransformationAtAddress(labelled.statement, selected.address, transformation)
+    if (transformed === null) return null
+
+    const replaced = replaceLabelled(location === "goal" ? context.goals : context.hypotheses,
+      labelled.label, [{ label: labelled.label, statement: transformed }])
+
+    return {
+      move: {
+        kind: transformation.kind,
+        description: `${transformation.name} in ${labelled.label}`
+      },
+      newProofState: replaceContext(proofState, selected.contextId, [
+        location === "goal" ? { ...context, goals: replaced } : { ...context, hypotheses: replaced }
+      ])
+    }
+  }
+}
+
+/** All available moves, in the order in which they should be offered to the user. */
+export const proofMoves: ProofMove[] = [
+  { name: "Introduce variable", apply: introduceUniversal },
+  { name: "Introduce witness", apply: introduceExistential },
+  { name: "Assume hypothesis", apply: introduceImplication },
+  { name: "Split goal", apply: splitConjunctionGoal },
+  { name: "Split hypothesis", apply: splitConjunctionHypothesis },
+  { name: "Cases", apply: casesOnDisjunction },
+  { name: "Choose disjunct", apply: chooseDisjunct },
+  { name: "Rewrite", apply: rewriteWithEquation },
+  ...statementTransformations.map(transformation => ({ name: transformation.name, apply: transformationMove(transformation) }))
+]
@@ -0,0 +1,104 @@
+import { ProofDiscoveryAction, ProofDiscoveryState, proofDiscoveryStateReducer } from './ProofDiscoveryState'
+import { ProofDiscoveryActionSchema } from './ProofDiscoveryStateZod'
+
+/** A problem with an action, located by the path of the offending field within the action. */
+export type ProofDiscoveryActionIssue = {
+    path: PropertyKey[]
+    message: string
+}
+
+/** An error raised when an action is rejected, listing everything that is wrong with it. */
+export class ProofDiscoveryActionError extends Error {
+    constructor(readonly issues: ProofDiscoveryActionIssue[]) {
+        super(`Invalid action: ${issues.map(formatProofDiscoveryActionIssue).join("; ")}`)
+        this.name = "ProofDiscoveryActionError"
+    }
+}
+
+/** A human-readable rendering of an issue, such as `nodeId: Node with ID 7 does not exist.` */
+export function formatProofDiscoveryActionIssue({ path, message }: ProofDiscoveryActionIssue): string {
+    return path.length === 0 ? message : `${path.map(String).join(".")}: ${message}`
+}
+
+export type ProofDiscoveryActionValidationResult =
+| { success: true, action: ProofDiscoveryAction }
+| { success: false, issues: ProofDiscoveryActionIssue[] }
+
+/**
+ * Check that data is an action that can be applied to the given state.
+ *
+ * Besides the shape of the action, this checks that the nodes it refers to exist,
+ * so that a validated action never makes `proofDiscoveryStateReducer` throw.
+ *
+ * @param state - The state the action is to be applied to
+ * @param data - The action to check, for instance one received from a server or an oracle
+ * @returns The typed action, or the issues found with it
+ */
+export function validateProofDiscoveryAction(state: ProofDiscoveryState, data: unknown): ProofDiscoveryActionValidationResult {
+    const parsed = ProofDiscoveryActionSchema.safeParse(data)
+    if (!parsed.success) {
+        return {
+            success: false,
+            issues: parsed.error.issues.map(({ path, message }) => ({ path, message }))
+        }
+    }
+
+    const action = parsed.data
+    const issues: ProofDiscoveryActionIssue[] = []
+    switch (action.action) {
+        case "repair":
+        case "focus":
+            if (!state.graph.hasNode(action.nodeId)) {
+                issues.push({ path: ["nodeId"], message: `Node with ID ${action.nodeId} does not exist.` })
+            }
+            break
+        case "transition":
+        case "finish":
+            if (!state.graph.hasNode(state.currentNodeId)) {
+                issues.push({ path: ["action"], message: `Cannot ${action.action} before the session has been initialized.` })
+            }
+            break
+    }
+    return issues.length > 0 ? { success: false, issues } : { success: true, action }
+}
+
+/**
+ * Validate an action and apply it to a state.
+ *
+ * @returns The new state
+ * @throws `ProofDiscoveryActionError` if the action is invalid, in which case the state is left untouched
+ */
+export function applyProofDiscoveryAction(state: ProofDiscoveryState, data: unknown): ProofDiscoveryState {
+    const result = validateProofDiscoveryAction(state, data)
+    if (!result.success) {
+        throw new ProofDiscoveryActionError(result.issues)
+    }
+    return proofDiscoveryStateReducer(state, result.action)
+}
+
+/**
+ * Wrap a dispatch function so that only valid actions reach it.
+ *
+ * Invalid actions are reported to `onInvalid` and dropped,
+ * so that they cannot make the reducer throw or corrupt the state it holds.
+ *
+ * @param getState - Returns the current state, against which node IDs are checked when an action is dispatched
+ * @param dispatch - The dispatch function of a reducer accepting `ProofDiscoveryAction`s
+ * @param onInvalid - Called with the issues of every rejected action
+ * @returns A dispatch function accepting unchecked data, which returns whether the action was dispatched
+ */
+export function validatingProofDiscoveryDispatch(
+    getState: () => ProofDiscoveryState,
+    dispatch: (action: ProofDiscoveryAction) => void,
+    onInvalid: (issues: ProofDiscoveryActionIssue[]) => void
+): (data: unknown) => boolean {
+    return data => {
+        const result = validateProofDiscoveryAction(getState(), data)
+        if (!result.success) {
+            onInvalid(result.issues)
+            return false
+        }
+        dispatch(result.action)
+        return true
+    }
+}
@@ -0,0 +1,80 @@
+import React from "react"
+import { nullProofDiscoveryState, ProofDiscoveryAction, ProofDiscoveryState, proofDiscoveryStateReducer } from "./ProofDiscoveryState"
+
+/** A step in the history of a proof discovery session: an action and the state it led to. */
+export type ProofDiscoveryHistoryStep = {
+    /** The action that was dispatched, or `null` for the state the history started from. */
+    action: ProofDiscoveryAction | null
+    state: ProofDiscoveryState
+}
+
+/**
+ * The full history of a proof discovery session.
+ *
+ * Steps after `currentStep` have been undone and can be redone
+ * until a new action is dispatched, at which point they are discarded.
+ */
+export type ProofDiscoveryHistory = {
+    steps: ProofDiscoveryHistoryStep[]
+    currentStep: number
+}
+
+export type ProofDiscoveryHistoryAction =
+| ProofDiscoveryAction
+| { action: "undo" }
+| { action: "redo" }
+| { action: "jump", step: number }
+
+/** Start a history from the given state. */
+export function initialProofDiscoveryHistory(state: ProofDiscoveryState): ProofDiscoveryHistory {
+    return {
+        steps: [{ action: null, state }],
+        currentStep: 0
+    }
+}
+
+/** The state at the current step of the history. */
+export function currentProofDiscoveryState(history: ProofDiscoveryHistory): ProofDiscoveryState {
+    return history.steps[history.currentStep]!.state
+}
+
+export function canUndo(history: ProofDiscoveryHistory): boolean {
+    return history.currentStep > 0
+}
+
+export function canRedo(history: ProofDiscoveryHistory): boolean {
+    return history.currentStep < history.steps.length - 1
+}
+
+export function proofDiscoveryHistoryReducer(history: ProofDiscoveryHistory, action: ProofDiscoveryHistoryAction): ProofDiscoveryHistory {
+    switch (action.action) {
+        case "undo": {
+            return canUndo(history) ? { ...history, currentStep: history.currentStep - 1 } : history
+        }
+        case "redo": {
+            return canRedo(history) ? { ...history, currentStep: history.currentStep + 1 } : history
+        }
+        case "jump": {
+            if (action.step < 0 || action.step >= history.steps.length) {
+                throw new Error(`Step ${action.step} does not exist.`)
+            }
+            return { ...history, currentStep: action.step }
+        }
+        default: {
+            // States are immutable, so the states recorded in earlier steps stay intact
+            const state = proofDiscoveryStateReducer(currentProofDiscoveryState(history), action)
+            return {
+                steps: [...history.steps.slice(0, history.currentStep + 1), { action, state }],
+                currentStep: history.currentStep + 1
+            }
+        }
+    }
+}
+
+export const ProofDiscoveryHistoryContext = React.createContext<{
+    history: ProofDiscoveryHistory
+    dispatchHistoryAction: React.Dispatch<ProofDiscoveryHistoryAction>
+}>({
+    history: initialProofDiscoveryHistory(nullProofDiscoveryState),
+    dispatchHistoryAction: () => {}
+})
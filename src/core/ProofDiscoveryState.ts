@@ -3,6 +3,14 @@ import { ProofState } from './ProofStateZod'
 
 export type MoveKind = "strengthening" | "weakening" | "equivalence" | "other"
 
+/** What each kind of move says about the new proof state, for use in written proofs. */
+export const moveKindExplanations: Record<MoveKind, string> = {
+    strengthening: "the new proof state implies the previous one",
+    weakening: "the new proof state is implied by the previous one",
+    equivalence: "the new proof state is equivalent to the previous one",
+    other: "the new proof state is not logically related to the previous one"
+}
+
 export interface MoveDescription {
     kind: MoveKind
     description: string
@@ -14,8 +22,15 @@ export interface ProofNode {
 
 export type ProofNodeId = number
 
-type ProofDiscoveryGraph = Graph<ProofNode, MoveDescription>
+export type ProofDiscoveryGraph = Graph<ProofNode, MoveDescription>
 
+/**
+ * The state of a proof discovery session.
+ * 
+ * States are treated as immutable values: `proofDiscoveryStateReducer` never modifies the graph
+ * of the state it is given, but copies it whenever an action adds or changes nodes and edges.
+ * The graph of a state must therefore not be modified once the state has been created.
+ */
 export interface ProofDiscoveryState {
     statement: string
     graph: ProofDiscoveryGraph
@@ -23,13 +38,63 @@ export interface ProofDiscoveryState {
     isSolved: boolean
 }
 
-export const nullProofDiscoveryState = {
+export const nullProofDiscoveryState: ProofDiscoveryState = {
     statement: "",
     graph: new Graph<ProofNode, MoveDescription>(),
     currentNodeId: -1,
     isSolved: false
 }
 
+/** The node from which the given node was reached by a `transition`, or `null` for the root node.
+ * 
+ * Node IDs are allocated in increasing order and every transition links the new node 
+ * to the node that was current at the time, so the parent is the unique neighbour with a smaller ID.
+ */
+export function parentProofNodeId(graph: ProofDiscoveryGraph, nodeId: ProofNodeId): ProofNodeId | null {
+    let parent: ProofNodeId | null = null
+    graph.forEachNeighbor(nodeId, neighbor => {
+        const neighborId = Number(neighbor)
+        if (neighborId < nodeId) {
+            parent = neighborId
+        }
+    })
+    return parent
+}
+
+/** A node on a discovery path along with the move by which it was reached, or `null` for the root node. */
+export type DiscoveryStep = {
+    nodeId: ProofNodeId
+    proofState: ProofState
+    move: MoveDescription | null
+}
+
+/**
+ * The path of transitions from the root node to the given node, following `parentProofNodeId`.
+ *
+ * @returns The steps along the path, starting with the root node and ending with the given node
+ * @throws `Error` if the node does not exist
+ */
+export function discoveryPath(graph: ProofDiscoveryGraph, nodeId: ProofNodeId): DiscoveryStep[] {
+    if (!graph.hasNode(nodeId)) {
+        throw new Error(`Node with ID ${nodeId} does not exist.`)
+    }
+    const steps: DiscoveryStep[] = []
+    let current: ProofNodeId | null = nodeId
+    while (current !== null) {
+        const parent = parentProofNodeId(graph, current)
+        const child = current
+        const edge = parent === null ? undefined : graph.findEdge(child, (_edge, _move, source, target) =>
+            Number(source) === parent || Number(target) === parent)
+        steps.push({
+            nodeId: child,
+            proofState: graph.getNodeAttribute(child, 'proofState'),
+            move: edge === undefined ? null : graph.getEdgeAttributes(edge)
+        })
+        current = parent
+    }
+    return steps.reverse()
+}
+
 export type ProofDiscoveryAction =
 | { action: "initialize", statement: string, proofState: ProofState }
 | { action: "repair", nodeId: ProofNodeId, newProofState: ProofState }
@@ -42,13 +107,12 @@ export type ProofDiscoveryAction =
 export function proofDiscoveryStateReducer(state: ProofDiscoveryState, action: ProofDiscoveryAction): ProofDiscoveryState {
     switch (action.action) {
         case "initialize": {
-            if (state.graph.order > 0) {
-                state.graph.clear()
-            }
-            state.graph.addNode(0, { proofState: action.proofState })
+            const graph = new Graph<ProofNode, MoveDescription>()
+            graph.addNode(0, { proofState: action.proofState })
             return {
                 ...state,
                 statement: action.statement,
+                graph,
                 currentNodeId: 0,
                 isSolved: false
             }
@@ -57,8 +121,12 @@ export function proofDiscoveryStateReducer(state: ProofDiscoveryState, action: P
             if (!state.graph.hasNode(action.nodeId)) {
                 throw new Error(`Node with ID ${action.nodeId} does not exist.`)
             }
-            state.graph.setNodeAttribute(action.nodeId, 'proofState', action.newProofState)
-            return state
+            const graph = state.graph.copy()
+            graph.setNodeAttribute(action.nodeId, 'proofState', action.newProofState)
+            return {
+                ...state,
+                graph
+            }
         }
         case "focus": {
             if (!state.graph.hasNode(action.nodeId)) {
@@ -70,24 +138,26 @@ export function proofDiscoveryStateReducer(state: ProofDiscoveryState, action: P
             }
         }
         case "transition": {
-            const newNodeId = state.graph.order
-            state.graph.addNode(newNodeId, { proofState: action.newProofState })
+            const graph = state.graph.copy()
+            const newNodeId = graph.order
+            graph.addNode(newNodeId, { proofState: action.newProofState })
             switch (action.move.kind) {
                 case "strengthening":
-                    state.graph.addDirectedEdge(newNodeId, state.currentNodeId, action.move)
+                    graph.addDirectedEdge(newNodeId, state.currentNodeId, action.move)
                     break
                 case "weakening":
-                    state.graph.addDirectedEdge(state.currentNodeId, newNodeId, action.move)
+                    graph.addDirectedEdge(state.currentNodeId, newNodeId, action.move)
                     break
                 case "equivalence":
-                    state.graph.addUndirectedEdge(newNodeId, state.currentNodeId, action.move)
+                    graph.addUndirectedEdge(newNodeId, state.currentNodeId, action.move)
                     break
                 case "other":
-                    // TODO: Make this edge grayed and dotted
-                    state.graph.addDirectedEdge(newNodeId, state.currentNodeId, action.move)
+                    // Rendered as a grayed, dotted edge by `ProofDiscoveryGraph`
+                    graph.addDirectedEdge(newNodeId, state.currentNodeId, action.move)
             }
             return {
                 ...state,
+                graph,
                 currentNodeId: newNodeId
             }
         }
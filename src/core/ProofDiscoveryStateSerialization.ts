@@ -0,0 +1,89 @@
+import Graph from 'graphology'
+import { MoveDescription, ProofDiscoveryState, ProofNode } from './ProofDiscoveryState'
+import {
+    PROOF_DISCOVERY_STATE_FORMAT_VERSION,
+    SerializedProofDiscoveryState,
+    SerializedProofDiscoveryStateSchema,
+    VersionedDataSchema
+} from './ProofDiscoveryStateZod'
+
+/** A function upgrading serialized data from one version of the format to the next. */
+export type ProofDiscoveryStateMigration = (data: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * Migrations between versions of the serialization format, indexed by the version they upgrade from.
+ *
+ * When the format changes, bump `PROOF_DISCOVERY_STATE_FORMAT_VERSION` and register a migration here
+ * from the previous version, so that archived sessions can still be loaded.
+ */
+export const proofDiscoveryStateMigrations: Record<number, ProofDiscoveryStateMigration> = {}
+
+/**
+ * Convert a proof discovery state into plain data that can be stored as JSON.
+ *
+ * @param state - The state to serialize
+ * @returns The serialized state, tagged with the current format version
+ */
+export function serializeProofDiscoveryState(state: ProofDiscoveryState): SerializedProofDiscoveryState {
+    const { graph } = state
+    return {
+        version: PROOF_DISCOVERY_STATE_FORMAT_VERSION,
+        statement: state.statement,
+        nodes: graph.mapNodes((node, { proofState }) => ({ id: Number(node), proofState })),
+        moves: graph.mapEdges((_edge, move, source, target) => ({
+            source: Number(source),
+            target: Number(target),
+            move
+        })),
+        currentNodeId: state.currentNodeId,
+        isSolved: state.isSolved
+    }
+}
+
+/**
+ * Reconstruct a proof discovery state from serialized data.
+ *
+ * Data written by an older version of the format is first upgraded with the registered migrations.
+ *
+ * @param data - Serialized data, for instance the result of `JSON.parse`
+ * @returns The reconstructed state with a freshly built graph
+ * @throws `ZodError` if the data does not describe a valid proof discovery state
+ * @throws `Error` if the data comes from a newer version of the format, or a migration is missing or does not raise the version
+ */
+export function deserializeProofDiscoveryState(data: unknown): ProofDiscoveryState {
+    let migrated = VersionedDataSchema.parse(data)
+    if (migrated.version > PROOF_DISCOVERY_STATE_FORMAT_VERSION) {
+        throw new Error(`Unsupported format version ${migrated.version}; the latest supported version is ${PROOF_DISCOVERY_STATE_FORMAT_VERSION}.`)
+    }
+    while (migrated.version < PROOF_DISCOVERY_STATE_FORMAT_VERSION) {
+        const migrate = proofDiscoveryStateMigrations[migrated.version]
+        if (!migrate) {
+            throw new Error(`No migration available from format version ${migrated.version}.`)
+        }
+        const upgraded = VersionedDataSchema.parse(migrate(migrated))
+        if (upgraded.version <= migrated.version) {
+            throw new Error(`The migration from format version ${migrated.version} did not raise the version.`)
+        }
+        migrated = upgraded
+    }
+
+    const serialized = SerializedProofDiscoveryStateSchema.parse(migrated)
+    const graph = new Graph<ProofNode, MoveDescription>()
+    serialized.nodes.forEach(({ id, proofState }) => {
+        graph.addNode(id, { proofState })
+    })
+    serialized.moves.forEach(({ source, target, move }) => {
+        if (move.kind === "equivalence") {
+            graph.addUndirectedEdge(source, target, move)
+        } else {
+            graph.addDirectedEdge(source, target, move)
+        }
+    })
+
+    return {
+        statement: serialized.statement,
+        graph,
+        currentNodeId: serialized.currentNodeId,
+        isSolved: serialized.isSolved
+    }
+}
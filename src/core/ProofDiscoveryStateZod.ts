@@ -0,0 +1,146 @@
+import { z } from 'zod'
+import { ProofStateSchema } from './ProofStateZod'
+import { MoveDescription, MoveKind, ProofDiscoveryAction } from './ProofDiscoveryState'
+
+/** The kind of a move records how the new proof state is logically related to the old one. */
+export const MoveKindSchema: z.ZodType<MoveKind> = z.enum(["strengthening", "weakening", "equivalence", "other"])
+
+/** A move between two proof states along with a natural language description of it. */
+export const MoveDescriptionSchema: z.ZodType<MoveDescription> = z.strictObject({
+  kind: MoveKindSchema,
+  description: z.string()
+})
+
+/** The ID of a node of the proof discovery graph. */
+export const ProofNodeIdSchema = z.number().int().nonnegative()
+
+export const InitializeActionSchema = z.object({
+  action: z.literal("initialize"),
+  statement: z.string(),
+  proofState: ProofStateSchema
+})
+
+export const RepairActionSchema = z.object({
+  action: z.literal("repair"),
+  nodeId: ProofNodeIdSchema,
+  newProofState: ProofStateSchema
+})
+
+export const FocusActionSchema = z.object({
+  action: z.literal("focus"),
+  nodeId: ProofNodeIdSchema
+})
+
+export const TransitionActionSchema = z.object({
+  action: z.literal("transition"),
+  move: MoveDescriptionSchema,
+  newProofState: ProofStateSchema
+})
+
+export const FinishActionSchema = z.object({
+  action: z.literal("finish")
+})
+
+/**
+ * An action on a proof discovery session, as accepted by `proofDiscoveryStateReducer`.
+ *
+ * The schema only checks the shape of the action; whether the node IDs it refers to exist
+ * depends on the state, and is checked by `validateProofDiscoveryAction`.
+ */
+export const ProofDiscoveryActionSchema: z.ZodType<ProofDiscoveryAction> = z.discriminatedUnion("action", [
+  InitializeActionSchema,
+  RepairActionSchema,
+  FocusActionSchema,
+  TransitionActionSchema,
+  FinishActionSchema
+])
+
+/** The version of the serialization format produced by `serializeProofDiscoveryState`. */
+export const PROOF_DISCOVERY_STATE_FORMAT_VERSION = 1
+
+/** A node of the proof discovery graph together with its ID. */
+export const SerializedProofNodeSchema = z.object({
+  id: z.number().int().nonnegative(),
+  proofState: ProofStateSchema
+})
+export type SerializedProofNode = z.infer<typeof SerializedProofNodeSchema>
+
+/**
+ * An edge of the proof discovery graph.
+ *
+ * Equivalences are undirected, so their `source` and `target` may be swapped freely.
+ * For all other moves, the edge points from the stronger proof state to the weaker one.
+ */
+export const SerializedMoveSchema = z.object({
+  source: z.number().int().nonnegative(),
+  target: z.number().int().nonnegative(),
+  move: MoveDescriptionSchema
+})
+export type SerializedMove = z.infer<typeof SerializedMoveSchema>
+
+/**
+ * A proof discovery session in a form that can be stored as JSON.
+ *
+ * Besides the shape of the data, the schema checks that the node IDs are 0 to n - 1, each used once,
+ * that every move and the current node refer to existing nodes, that no two moves join the same nodes,
+ * and that the moves form a tree in which every node but the root is joined to one node with a smaller ID.
+ */
+export const SerializedProofDiscoveryStateSchema = z.object({
+  version: z.literal(PROOF_DISCOVERY_STATE_FORMAT_VERSION),
+  statement: z.string(),
+  nodes: z.array(SerializedProofNodeSchema),
+  moves: z.array(SerializedMoveSchema),
+  currentNodeId: z.number().int(),
+  isSolved: z.boolean()
+}).superRefine((data, ctx) => {
+  const nodeIds = new Set<number>()
+  data.nodes.forEach((node, idx) => {
+    if (nodeIds.has(node.id)) {
+      ctx.addIssue({ code: "custom", message: `Duplicate node ID ${node.id}.`, path: ["nodes", idx, "id"] })
+    }
+    // New nodes are numbered by the size of the graph, so the IDs of n nodes must be 0 to n - 1
+    if (node.id >= data.nodes.length) {
+      ctx.addIssue({ code: "custom", message: `Node ID ${node.id} is out of range for ${data.nodes.length} nodes.`, path: ["nodes", idx, "id"] })
+    }
+    nodeIds.add(node.id)
+  })
+  const joinedPairs = new Set<string>()
+  data.moves.forEach((move, idx) => {
+    for (const endpoint of ["source", "target"] as const) {
+      if (!nodeIds.has(move[endpoint])) {
+        ctx.addIssue({ code: "custom", message: `Node with ID ${move[endpoint]} does not exist.`, path: ["moves", idx, endpoint] })
+      }
+    }
+    const pair = `${Math.min(move.source, move.target)}-${Math.max(move.source, move.target)}`
+    if (joinedPairs.has(pair)) {
+      ctx.addIssue({ code: "custom", message: `Nodes ${move.source} and ${move.target} are joined by more than one move.`, path: ["moves", idx] })
+    }
+    joinedPairs.add(pair)
+  })
+  // Every transition joins a new node to an existing one, so every node but the root has exactly one
+  // neighbour with a smaller ID, its parent, as `parentProofNodeId` and `discoveryPath` rely on
+  const parentCounts = new Map<number, number>()
+  data.moves.forEach(({ source, target }) => {
+    const child = Math.max(source, target)
+    if (source !== target) parentCounts.set(child, (parentCounts.get(child) ?? 0) + 1)
+  })
+  data.nodes.forEach((node, idx) => {
+    const parents = parentCounts.get(node.id) ?? 0
+    if (node.id !== 0 && parents !== 1) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Node ${node.id} must be joined to exactly one node with a smaller ID, but is joined to ${parents}.`,
+        path: ["nodes", idx, "id"]
+      })
+    }
+  })
+  if (data.nodes.length > 0 && !nodeIds.has(data.currentNodeId)) {
+    ctx.addIssue({ code: "custom", message: `Node with ID ${data.currentNodeId} does not exist.`, path: ["currentNodeId"] })
+  }
+})
+export type SerializedProofDiscoveryState = z.infer<typeof SerializedProofDiscoveryStateSchema>
+
+/** The common part of every version of the serialization format, used to dispatch migrations. */
+export const VersionedDataSchema = z.looseObject({
+  version: z.number().int().positive()
+})
@@ -0,0 +1,115 @@
+import React from "react"
+import { ContextVariable, LabelledStatement, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { StatementAddress } from "./ProofStateSelectionContext"
+import { childCoordinates, statementAtAddress } from "./StatementAddress"
+
+export type DiffStatus = "added" | "removed" | "modified" | "unchanged"
+
+/** The change to a variable, which is the new variable unless it was removed. */
+export type VariableDiff = {
+  status: DiffStatus
+  variable: ContextVariable
+}
+
+/**
+ * The change to a hypothesis or goal, which is the new statement unless it was removed.
+ * For modified statements, the addresses of the changed sub-statements are recorded.
+ */
+export type LabelledStatementDiff = {
+  status: DiffStatus
+  labelled: LabelledStatement
+  changedAddresses: StatementAddress[]
+}
+
+/**
+ * The changes to a proof state context, with variables matched by name and hypotheses and goals
+ * matched by label. Entries are listed in the order of the new context,
+ * followed by the entries that were removed.
+ */
+export type ProofStateContextDiff = {
+  status: DiffStatus
+  variables: VariableDiff[]
+  hypotheses: LabelledStatementDiff[]
+  goals: LabelledStatementDiff[]
+}
+
+/** The changes between two proof states, with contexts matched by position. */
+export type ProofStateDiff = ProofStateContextDiff[]
+
+/**
+ * Compare two statements structurally.
+ *
+ * @returns The addresses (relative to the new statement) of the smallest sub-statements that differ,
+ * or an empty list if the statements are equal
+ */
+export function diffStatements(before: Statement, after: Statement, address: StatementAddress = []): StatementAddress[] {
+  if (typeof before === "string" || typeof after === "string") {
+    return before === after ? [] : [address]
+  }
+  const coords = childCoordinates(after)
+  if (before.kind !== after.kind || JSON.stringify(childCoordinates(before)) !== JSON.stringify(coords)) {
+    return [address]
+  }
+  return coords.flatMap(coord =>
+    diffStatements(statementAtAddress(before, [coord]), statementAtAddress(after, [coord]), [...address, coord]))
+}
+
+function diffLabelledStatements(before: LabelledStatement[], after: LabelledStatement[]): LabelledStatementDiff[] {
+  const diffs: LabelledStatementDiff[] = after.map(labelled => {
+    const previous = before.find(s => s.label === labelled.label)
+    if (!previous) {
+      return { status: "added", labelled, changedAddresses: [] }
+    }
+    const changedAddresses = diffStatements(previous.statement, labelled.statement)
+    return { status: changedAddresses.length > 0 ? "modified" : "unchanged", labelled, changedAddresses }
+  })
+  const removed: LabelledStatementDiff[] = before
+    .filter(s => !after.some(t => t.label === s.label))
+    .map(labelled => ({ status: "removed", labelled, changedAddresses: [] }))
+  return [...diffs, ...removed]
+}
+
+function diffVariables(before: ContextVariable[], after: ContextVariable[]): VariableDiff[] {
+  const diffs: VariableDiff[] = after.map(variable => {
+    const previous = before.find(v => v.name === variable.name)
+    if (!previous) {
+      return { status: "added", variable }
+    }
+    const isUnchanged = previous.kind === variable.kind &&
+      previous.description === variable.description &&
+      (previous.kind !== "let" || variable.kind !== "let" || previous.value === variable.value)
+    return { status: isUnchanged ? "unchanged" : "modified", variable }
+  })
+  const removed: VariableDiff[] = before
+    .filter(v => !after.some(w => w.name === v.name))
+    .map(variable => ({ status: "removed", variable }))
+  return [...diffs, ...removed]
+}
+
+const emptyContext: ProofStateContext = { variables: [], hypotheses: [], goals: [] }
+
+/** Compare two proof state contexts, either of which may be missing. */
+export function diffProofStateContexts(before: ProofStateContext | undefined, after: ProofStateContext | undefined): ProofStateContextDiff {
+  const variables = diffVariables((before ?? emptyContext).variables, (after ?? emptyContext).variables)
+  const hypotheses = diffLabelledStatements((before ?? emptyContext).hypotheses, (after ?? emptyContext).hypotheses)
+  const goals = diffLabelledStatements((before ?? emptyContext).goals, (after ?? emptyContext).goals)
+
+  let status: DiffStatus
+  if (!before) {
+    status = "added"
+  } else if (!after) {
+    status = "removed"
+  } else {
+    status = [...variables, ...hypotheses, ...goals].every(d => d.status === "unchanged") ? "unchanged" : "modified"
+  }
+  return { status, variables, hypotheses, goals }
+}
+
+/** Compare a proof state with the one it was derived from. */
+export function diffProofStates(before: ProofState, after: ProofState): ProofStateDiff {
+  return Array.from({ length: Math.max(before.length, after.length) },
+    (_, idx) => diffProofStateContexts(before[idx], after[idx]))
+}
+
+/** The addresses of the changed sub-statements within the statement being rendered. */
+export const StatementDiffContext = React.createContext<StatementAddress[]>([])
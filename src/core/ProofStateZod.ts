@@ -20,7 +20,7 @@ export type AtomicStatement = z.infer<typeof AtomicStatementSchema>
  * - { name: "G", description: "Group" }
  * - { name: "f", description: "$A -> B$" }
  */
-export const VariableSchema = z.object({
+export const VariableSchema = z.strictObject({
   name: z.string(),
   description: AtomicStatementSchema
 })
@@ -32,14 +32,11 @@ export type Variable = z.infer<typeof VariableSchema>
  * - *meta variable*: a variable that is to be instantiated later
  * - *let variable*: a variable that is defined to be equal to a specific value
  */
-export const ContextVariableSchema = z.intersection(
-  z.discriminatedUnion("kind", [
-    z.object({ kind: z.literal("free") }),
-    z.object({ kind: z.literal("meta") }),
-    z.object({ kind: z.literal("let"), value: AtomicStatementSchema })
-  ]),
-  VariableSchema
-)
+export const ContextVariableSchema = z.discriminatedUnion("kind", [
+  VariableSchema.extend({ kind: z.literal("free") }),
+  VariableSchema.extend({ kind: z.literal("meta") }),
+  VariableSchema.extend({ kind: z.literal("let"), value: AtomicStatementSchema })
+])
 export type ContextVariable = z.infer<typeof ContextVariableSchema>
 
 /** A full statement involving multiple atomic statements joined by logical connectives. */
@@ -56,45 +53,45 @@ export type Statement =
 
 export const StatementSchema: z.ZodType<Statement> = z.lazy(() => z.union([
   AtomicStatementSchema,
-  z.object({
+  z.strictObject({
     kind: z.literal("conjunction"),
     statements: z.array(StatementSchema)
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("disjunction"),
     statements: z.array(StatementSchema)
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("negation"),
     statement: StatementSchema
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("implication"),
     antecedent: StatementSchema,
     consequent: StatementSchema
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("equivalence"),
     left: StatementSchema,
     right: StatementSchema
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("universal"),
     variable: VariableSchema,
     statement: StatementSchema
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("existential"),
     variable: VariableSchema,
     statement: StatementSchema
   }),
-  z.object({
+  z.strictObject({
     kind: z.literal("highlight"),
     statement: StatementSchema
   })
 ]))
 
-export const LabelledStatementSchema = z.object({
+export const LabelledStatementSchema = z.strictObject({
   label: z.string(),
   statement: StatementSchema
 })
@@ -107,7 +104,7 @@ export type LabelledStatement = z.infer<typeof LabelledStatementSchema>
  * 
  * There may be multiple proof contexts in one proof state.
  */
-export const ProofStateContextSchema = z.object({
+export const ProofStateContextSchema = z.strictObject({
   variables: z.array(ContextVariableSchema),
   hypotheses: z.array(LabelledStatementSchema),
   goals: z.array(LabelledStatementSchema)
@@ -0,0 +1,80 @@
+import { MoveDescription, ProofDiscoveryGraph, ProofNodeId } from "./ProofDiscoveryState"
+import { ProofState } from "./ProofStateZod"
+
+/**
+ * The proof status of a node in the proof discovery graph, which is either
+ * - *closed*: every goal in every context of the proof state has been closed
+ * - *proved*: the proof state is implied by a closed or proved proof state
+ *   along the edges of the graph, which is recorded in `from`
+ * - *open*: neither of the above
+ */
+export type ProofNodeStatus =
+  | { kind: "closed" }
+  | { kind: "proved", from: ProofNodeId }
+  | { kind: "open" }
+
+/** Whether a proof state has no goals left to prove. */
+export function isProofStateClosed(proofState: ProofState): boolean {
+  return proofState.every(context => context.goals.length === 0)
+}
+
+/**
+ * Compute the proof status of every node in the proof discovery graph.
+ *
+ * Directed strengthening and weakening edges point from a proof state to one that it implies,
+ * and equivalence edges are implications in both directions, so the status of closed nodes
+ * is propagated along these edges. Edges of kind "other" carry no logical information
+ * and are not followed.
+ *
+ * @param graph - The proof discovery graph
+ * @returns A map from every node ID to the status of that node
+ */
+export function computeProofNodeStatuses(graph: ProofDiscoveryGraph): Map<ProofNodeId, ProofNodeStatus> {
+  const statuses = new Map<ProofNodeId, ProofNodeStatus>()
+  const queue: ProofNodeId[] = []
+
+  graph.forEachNode((node, { proofState }) => {
+    const nodeId = Number(node)
+    if (isProofStateClosed(proofState)) {
+      statuses.set(nodeId, { kind: "closed" })
+      queue.push(nodeId)
+    }
+  })
+
+  // Breadth-first search, so that every proved node records a shortest chain to a closed node
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!
+    const propagate = (move: MoveDescription, neighbor: string) => {
+      const neighborId = Number(neighbor)
+      if (move.kind !== "other" && !statuses.has(neighborId)) {
+        statuses.set(neighborId, { kind: "proved", from: nodeId })
+        queue.push(neighborId)
+      }
+    }
+    graph.forEachOutEdge(nodeId, (_edge, move, _source, target) => propagate(move, target))
+    graph.forEachUndirectedEdge(nodeId, (_edge, move, source, target) =>
+      propagate(move, Number(source) === nodeId ? target : source))
+  }
+
+  graph.forEachNode(node => {
+    if (!statuses.has(Number(node))) {
+      statuses.set(Number(node), { kind: "open" })
+    }
+  })
+  return statuses
+}
+
+/**
+ * The chain of nodes through which a node is proved, starting at the node itself
+ * and ending at a closed node, or an empty list if the node is open.
+ */
+export function provingChain(statuses: Map<ProofNodeId, ProofNodeStatus>, nodeId: ProofNodeId): ProofNodeId[] {
+  const chain: ProofNodeId[] = []
+  let status = statuses.get(nodeId)
+  while (status?.kind === "proved") {
+    chain.push(nodeId)
+    nodeId = status.from
+    status = statuses.get(nodeId)
+  }
+  return status?.kind === "closed" ? [...chain, nodeId] : []
+}
@@ -0,0 +1,41 @@
+import React from "react"
+import { Statement } from "./ProofStateZod"
+import { printAtomicStatement, printStatement } from "./StatementPrinter"
+
+/** Names of the kinds of statements, as read out by assistive technology. */
+const statementKindNames: Record<Exclude<Statement, string>["kind"], string> = {
+  conjunction: "conjunction",
+  disjunction: "disjunction",
+  negation: "negation",
+  implication: "implication",
+  equivalence: "equivalence",
+  universal: "universal statement",
+  existential: "existential statement",
+  highlight: "highlighted statement"
+}
+
+/** What kind of statement this is, in words, for `aria-roledescription`. */
+export function statementRoleDescription(statement: Statement): string {
+  return typeof statement === "string" ? "atomic statement" : statementKindNames[statement.kind]
+}
+
+/** A label of a statement for assistive technology, giving its text with the math written in Unicode symbols. */
+export function statementLabel(statement: Statement): string {
+  return printStatement(statement)
+}
+
+/** A label of Typst math for assistive technology, such as `x ≥ 0` for `x >= 0`. */
+export function mathLabel(math: string): string {
+  return printAtomicStatement(`$${math}$`)
+}
+
+/** A description of a statement naming its kind, such as `implication: p → q`, for announcements. */
+export function describeStatement(statement: Statement): string {
+  return `${statementRoleDescription(statement)}: ${statementLabel(statement)}`
+}
+
+/**
+ * Announce a message through a live region, for changes such as moving the keyboard cursor within
+ * a math expression or toggling a selection, which assistive technology would not notice otherwise.
+ */
+export const AnnouncementContext = React.createContext<(message: string) => void>(() => {})
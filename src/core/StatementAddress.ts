@@ -0,0 +1,272 @@
+import { Statement } from "./ProofStateZod"
+import { StatementAddress, StatementCoordinate } from "./ProofStateSelectionContext"
+
+/** An error raised when an address does not describe a location within a statement. */
+export class StatementAddressError extends Error {
+  constructor(message: string, readonly address: StatementAddress) {
+    super(message)
+    this.name = "StatementAddressError"
+  }
+}
+
+/** A human-readable rendering of a coordinate, such as `conjunction[1]` or `implication_antecedent`. */
+export function formatStatementCoordinate(coord: StatementCoordinate): string {
+  return typeof coord === "string" ? coord : `${coord.kind}[${coord.idx}]`
+}
+
+/** A human-readable rendering of an address, with `root` for the empty address. */
+export function formatStatementAddress(address: StatementAddress): string {
+  return address.length === 0 ? "root" : address.map(formatStatementCoordinate).join(" / ")
+}
+
+/** A description of the kind of a statement for use in error messages. */
+function describeKind(statement: Statement): string {
+  return typeof statement === "string" ? "an atomic statement" : `a statement of kind "${statement.kind}"`
+}
+
+/**
+ * The coordinates of the immediate children of a statement, in the order in which they are rendered.
+ * Atomic statements have no children.
+ */
+export function childCoordinates(statement: Statement): StatementCoordinate[] {
+  if (typeof statement === "string") return []
+  switch (statement.kind) {
+    case "conjunction":
+    case "disjunction":
+      return statement.statements.map((_, idx) => ({ kind: statement.kind, idx }))
+    case "negation":
+      return ["negation"]
+    case "highlight":
+      return ["highlight"]
+    case "implication":
+      return ["implication_antecedent", "implication_consequent"]
+    case "equivalence":
+      return ["equivalence_left", "equivalence_right"]
+    case "universal":
+      return ["universal_var", "universal_var_type", "universal_body"]
+    case "existential":
+      return ["existential_var", "existential_var_type", "existential_body"]
+  }
+}
+
+/** Children of the same statement with named coordinates, in the order in which they are rendered. */
+const siblingOrders: StatementCoordinate[][] = [
+  ["implication_antecedent", "implication_consequent"],
+  ["equivalence_left", "equivalence_right"],
+  ["universal_var", "universal_var_type", "universal_body"],
+  ["existential_var", "existential_var_type", "existential_body"]
+]
+
+/**
+ * The coordinate of the sibling rendered before or after the child at a coordinate, or `null` if there is none.
+ * As the length of a conjunction or disjunction is not known from the coordinate alone,
+ * the sibling after its last statement may not exist.
+ */
+export function adjacentCoordinate(coord: StatementCoordinate, direction: -1 | 1): StatementCoordinate | null {
+  if (typeof coord === "object") {
+    const idx = coord.idx + direction
+    return idx >= 0 ? { kind: coord.kind, idx } : null
+  }
+  const order = siblingOrders.find(order => order.includes(coord))
+  return order?.[order.indexOf(coord) + direction] ?? null
+}
+
+/** Resolve a single coordinate, returning `undefined` if it does not apply to the statement. */
+function childAt(statement: Statement, coord: StatementCoordinate): Statement | undefined {
+  if (typeof statement === "string") return undefined
+  if (typeof coord === "object") {
+    return (statement.kind === coord.kind) ? statement.statements[coord.idx] : undefined
+  }
+  switch (coord) {
+    case "negation":
+    case "highlight":
+      return (statement.kind === coord) ? statement.statement : undefined
+    case "implication_antecedent":
+      return (statement.kind === "implication") ? statement.antecedent : undefined
+    case "implication_consequent":
+      return (statement.kind === "implication") ? statement.consequent : undefined
+    case "equivalence_left":
+      return (statement.kind === "equivalence") ? statement.left : undefined
+    case "equivalence_right":
+      return (statement.kind === "equivalence") ? statement.right : undefined
+    case "universal_var":
+    case "existential_var":
+    case "universal_var_type":
+    case "existential_var_type":
+    case "universal_body":
+    case "existential_body": {
+      if (statement.kind !== "universal" && statement.kind !== "existential") return undefined
+      if (!coord.startsWith(`${statement.kind}_`)) return undefined
+      if (coord.endsWith("_var")) return statement.variable.name
+      if (coord.endsWith("_var_type")) return statement.variable.description
+      return statement.statement
+    }
+  }
+}
+
+/** Replace the child at a coordinate, which is assumed to apply to the statement. */
+function withChildAt(statement: Exclude<Statement, string>, coord: StatementCoordinate, child: Statement, address: StatementAddress): Statement {
+  if (typeof coord === "object") {
+    const { statements } = statement as { statements: Statement[] }
+    return { ...statement, statements: statements.map((s, idx) => idx === coord.idx ? child : s) } as Statement
+  }
+  switch (coord) {
+    case "negation":
+    case "highlight":
+    case "universal_body":
+    case "existential_body":
+      return { ...statement, statement: child } as Statement
+    case "implication_antecedent":
+      return { ...statement, antecedent: child } as Statement
+    case "implication_consequent":
+      return { ...statement, consequent: child } as Statement
+    case "equivalence_left":
+      return { ...statement, left: child } as Statement
+    case "equivalence_right":
+      return { ...statement, right: child } as Statement
+    case "universal_var":
+    case "existential_var":
+    case "universal_var_type":
+    case "existential_var_type": {
+      if (typeof child !== "string") {
+        throw new StatementAddressError(
+          `Cannot place ${describeKind(child)} at ${formatStatementAddress(address)}: variables and their types must be atomic statements.`,
+          address)
+      }
+      const { variable } = statement as { variable: { name: string, description: string } }
+      return {
+        ...statement,
+        variable: coord.endsWith("_var") ? { ...variable, name: child } : { ...variable, description: child }
+      } as Statement
+    }
+  }
+}
+
+/**
+ * Resolve every coordinate of an address in turn, checking that each of them applies.
+ *
+ * @returns The statements along the path, starting with the root statement
+ */
+function resolvePath(statement: Statement, address: StatementAddress): Statement[] {
+  const path = [statement]
+  address.forEach((coord, idx) => {
+    const current = path[path.length - 1]!
+    const child = childAt(current, coord)
+    if (child === undefined) {
+      throw new StatementAddressError(
+        `Invalid address ${formatStatementAddress(address)}: coordinate ${idx} (${formatStatementCoordinate(coord)}) ` +
+        `does not apply to ${describeKind(current)}.`,
+        address)
+    }
+    path.push(child)
+  })
+  return path
+}
+
+/** Whether an address describes a location within the statement. */
+export function isValidStatementAddress(statement: Statement, address: StatementAddress): boolean {
+  let current: Statement | undefined = statement
+  for (const coord of address) {
+    current = childAt(current, coord)
+    if (current === undefined) return false
+  }
+  return true
+}
+
+/**
+ * Get the sub-statement at an address.
+ *
+ * @throws `StatementAddressError` if the address does not describe a location within the statement
+ */
+export function statementAtAddress(statement: Statement, address: StatementAddress): Statement {
+  const path = resolvePath(statement, address)
+  return path[path.length - 1]!
+}
+
+/**
+ * Replace the sub-statement at an address, leaving the original statement unchanged.
+ *
+ * Sub-statements that are not on the path to the address are shared with the original statement.
+ *
+ * @throws `StatementAddressError` if the address does not describe a location within the statement,
+ * or if a variable or its type would be replaced by a compound statement
+ */
+export function replaceAtAddress(statement: Statement, address: StatementAddress, replacement: Statement): Statement {
+  const path = resolvePath(statement, address)
+  let result = replacement
+  for (let idx = address.length - 1; idx >= 0; idx--) {
+    result = withChildAt(path[idx] as Exclude<Statement, string>, address[idx]!, result, address)
+  }
+  return result
+}
+
+/**
+ * Split an address ending in a conjunct or disjunct into the address of the
+ * conjunction or disjunction and the index within it.
+ */
+function splitListAddress(address: StatementAddress, operation: string): { parent: StatementAddress, kind: "conjunction" | "disjunction", idx: number } {
+  const last = address[address.length - 1]
+  if (last === undefined || typeof last !== "object") {
+    throw new StatementAddressError(
+      `Cannot ${operation} at ${formatStatementAddress(address)}: only conjuncts and disjuncts can be inserted or deleted.`,
+      address)
+  }
+  return { parent: address.slice(0, -1), kind: last.kind, idx: last.idx }
+}
+
+/**
+ * Insert a statement into a conjunction or disjunction, so that it ends up at the given address.
+ * The last coordinate may point one past the end of the list to append the statement.
+ *
+ * @throws `StatementAddressError` if the address does not end in a conjunct or disjunct
+ * of an existing conjunction or disjunction, or its index is out of range
+ */
+export function insertAtAddress(statement: Statement, address: StatementAddress, inserted: Statement): Statement {
+  const { parent, kind, idx } = splitListAddress(address, "insert")
+  const list = statementAtAddress(statement, parent)
+  if (typeof list === "string" || list.kind !== kind) {
+    throw new StatementAddressError(
+      `Cannot insert at ${formatStatementAddress(address)}: the statement at ${formatStatementAddress(parent)} is ${describeKind(list)}, not a ${kind}.`,
+      address)
+  }
+  if (!Number.isInteger(idx) || idx < 0 || idx > list.statements.length) {
+    throw new StatementAddressError(
+      `Cannot insert at ${formatStatementAddress(address)}: index ${idx} is out of range for a ${kind} of ${list.statements.length} statements.`,
+      address)
+  }
+  const statements = [...list.statements.slice(0, idx), inserted, ...list.statements.slice(idx)]
+  return replaceAtAddress(statement, parent, { kind, statements })
+}
+
+/**
+ * Delete a conjunct or disjunct.
+ *
+ * @throws `StatementAddressError` if the address does not point to a conjunct or disjunct,
+ * or if it is the only remaining one
+ */
+export function deleteAtAddress(statement: Statement, address: StatementAddress): Statement {
+  const { parent, kind, idx } = splitListAddress(address, "delete")
+  // Resolving the full address checks that the parent is a list of the right kind containing the index
+  statementAtAddress(statement, address)
+  const list = statementAtAddress(statement, parent) as { statements: Statement[] }
+  if (list.statements.length === 1) {
+    throw new StatementAddressError(
+      `Cannot delete at ${formatStatementAddress(address)}: it is the only statement of the ${kind}.`,
+      address)
+  }
+  return replaceAtAddress(statement, parent, { kind, statements: list.statements.filter((_, i) => i !== idx) })
+}
+
+/**
+ * List the addresses of all locations within a statement in pre-order,
+ * starting with the empty address of the statement itself.
+ */
+export function statementAddresses(statement: Statement): StatementAddress[] {
+  const addresses: StatementAddress[] = []
+  const visit = (current: Statement, address: StatementAddress) => {
+    addresses.push(address)
+    childCoordinates(current).forEach(coord => visit(childAt(current, coord)!, [...address, coord]))
+  }
+  visit(statement, [])
+  return addresses
+}
@@ -0,0 +1,238 @@
+import { Statement, Variable } from "./ProofStateZod"
+
+/** An error raised when text cannot be parsed as a statement, at an offset (counting from 0) into the text. */
+export class StatementParseError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message)
+    this.name = "StatementParseError"
+  }
+}
+
+type Connective = "conjunction" | "disjunction" | "negation" | "implication" | "equivalence" | "universal" | "existential"
+
+/**
+ * The ways of writing each connective, as symbols and as keywords.
+ * Quantified statements are written as `forall x : $RR$, ...`, where `.` may be used instead of `,`.
+ */
+export const connectiveSyntax: Record<Connective, { symbols: string[], keywords: string[] }> = {
+  conjunction: { symbols: ["∧", "/\\", "&&", "&"], keywords: ["and"] },
+  disjunction: { symbols: ["∨", "\\/", "||", "|"], keywords: ["or"] },
+  negation: { symbols: ["¬", "~", "!"], keywords: ["not"] },
+  implication: { symbols: ["⇒", "=>", "→", "->"], keywords: ["implies"] },
+  equivalence: { symbols: ["⇔", "<=>", "↔", "<->"], keywords: ["iff"] },
+  universal: { symbols: ["∀"], keywords: ["forall"] },
+  existential: { symbols: ["∃"], keywords: ["exists"] }
+}
+
+type Token =
+  | { type: "connective", connective: Connective, start: number, end: number }
+  | { type: "atom", statement: string, start: number, end: number }
+  | { type: "punctuation", text: "(" | ")" | ":" | "," | ".", start: number, end: number }
+  | { type: "end", start: number, end: number }
+
+/** Symbols sorted so that longer ones are matched before their prefixes, such as `<=>` before `<-`. */
+const connectiveSymbols = (Object.entries(connectiveSyntax) as [Connective, { symbols: string[] }][])
+  .flatMap(([connective, { symbols }]) => symbols.map(symbol => ({ symbol, connective })))
+  .sort((a, b) => b.symbol.length - a.symbol.length)
+
+const connectiveKeywords = new Map((Object.entries(connectiveSyntax) as [Connective, { keywords: string[] }][])
+  .flatMap(([connective, { keywords }]) => keywords.map(keyword => [keyword, connective] as const)))
+
+const identifierPattern = /^[\p{L}_][\p{L}\p{N}_']*/u
+
+/** Find the end of a `$...$` or `"..."` literal starting at the given offset, where `\` escapes the next character. */
+function literalEnd(text: string, start: number, delimiter: string): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++
+    } else if (text[i] === delimiter) {
+      return i + 1
+    }
+  }
+  throw new StatementParseError(`Missing the closing ${delimiter}.`, start)
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+  while (pos < text.length) {
+    const char = text[pos]!
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+    const start = pos
+    const symbol = connectiveSymbols.find(({ symbol }) => text.startsWith(symbol, pos))
+    const identifier = identifierPattern.exec(text.slice(pos))?.[0]
+    if (char === "$") {
+      pos = literalEnd(text, pos, "$")
+      tokens.push({ type: "atom", statement: text.slice(start, pos), start, end: pos })
+    } else if (char === "\"") {
+      pos = literalEnd(text, pos, "\"")
+      tokens.push({ type: "atom", statement: text.slice(start + 1, pos - 1).replace(/\\(["\\])/g, "$1"), start, end: pos })
+    } else if (symbol) {
+      pos += symbol.symbol.length
+      tokens.push({ type: "connective", connective: symbol.connective, start, end: pos })
+    } else if ("():,.".includes(char)) {
+      pos++
+      tokens.push({ type: "punctuation", text: char as "(" | ")" | ":" | "," | ".", start, end: pos })
+    } else if (identifier !== undefined) {
+      pos += identifier.length
+      const connective = connectiveKeywords.get(identifier)
+      tokens.push(connective
+        ? { type: "connective", connective, start, end: pos }
+        : { type: "atom", statement: `$${identifier}$`, start, end: pos })
+    } else {
+      throw new StatementParseError(`Unexpected "${char}".`, pos)
+    }
+  }
+  tokens.push({ type: "end", start: text.length, end: text.length })
+  return tokens
+}
+
+function describeToken(token: Token, text: string): string {
+  return token.type === "end" ? "the end of the input" : `"${text.slice(token.start, token.end)}"`
+}
+
+/**
+ * A recursive descent parser following the precedence of `statementPrecedence`: quantifiers extend
+ * as far to the right as possible, then come equivalence (which does not associate), implication
+ * (which associates to the right), disjunction, conjunction and negation.
+ */
+class StatementParser {
+  private pos = 0
+
+  constructor(private readonly text: string, private readonly tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.pos]!
+  }
+
+  private isConnective(connective: Connective): boolean {
+    const token = this.peek()
+    return token.type === "connective" && token.connective === connective
+  }
+
+  private isPunctuation(text: string): boolean {
+    const token = this.peek()
+    return token.type === "punctuation" && token.text === text
+  }
+
+  private unexpected(expected: string): StatementParseError {
+    const token = this.peek()
+    return new StatementParseError(`Expected ${expected}, but found ${describeToken(token, this.text)}.`, token.start)
+  }
+
+  parse(): Statement {
+    const statement = this.equivalence()
+    if (this.peek().type !== "end") {
+      throw this.unexpected("a connective")
+    }
+    return statement
+  }
+
+  private equivalence(): Statement {
+    const left = this.implication()
+    if (this.isConnective("equivalence")) {
+      this.pos++
+      const right = this.implication()
+      if (this.isConnective("equivalence")) {
+        throw new StatementParseError("Equivalences must be parenthesized when chained.", this.peek().start)
+      }
+      return { kind: "equivalence", left, right }
+    }
+    return left
+  }
+
+  private implication(): Statement {
+    const antecedent = this.list("disjunction")
+    if (this.isConnective("implication")) {
+      this.pos++
+      return { kind: "implication", antecedent, consequent: this.implication() }
+    }
+    return antecedent
+  }
+
+  private list(kind: "conjunction" | "disjunction"): Statement {
+    const operand = () => kind === "disjunction" ? this.list("conjunction") : this.unary()
+    const statements = [operand()]
+    while (this.isConnective(kind)) {
+      this.pos++
+      statements.push(operand())
+    }
+    return statements.length === 1 ? statements[0]! : { kind, statements }
+  }
+
+  private unary(): Statement {
+    const token = this.peek()
+    if (token.type === "connective" && token.connective === "negation") {
+      this.pos++
+      return { kind: "negation", statement: this.unary() }
+    }
+    if (token.type === "connective" && (token.connective === "universal" || token.connective === "existential")) {
+      this.pos++
+      return this.quantifier(token.connective)
+    }
+    if (token.type === "atom") {
+      this.pos++
+      return token.statement
+    }
+    if (this.isPunctuation("(")) {
+      this.pos++
+      const statement = this.equivalence()
+      if (!this.isPunctuation(")")) {
+        throw this.unexpected("\")\"")
+      }
+      this.pos++
+      return statement
+    }
+    throw this.unexpected("a statement")
+  }
+
+  /** Parse `x y : T, body`, binding each of the variables in turn. */
+  private quantifier(kind: "universal" | "existential"): Statement {
+    const names: string[] = []
+    for (let token = this.peek(); token.type === "atom"; token = this.peek()) {
+      names.push(token.statement)
+      this.pos++
+    }
+    if (names.length === 0) {
+      throw this.unexpected("a variable")
+    }
+    let description = ""
+    if (this.isPunctuation(":")) {
+      this.pos++
+      const type = this.peek()
+      if (type.type !== "atom") {
+        throw this.unexpected("the type of the variable")
+      }
+      description = type.statement
+      this.pos++
+    }
+    if (!this.isPunctuation(",") && !this.isPunctuation(".")) {
+      throw this.unexpected("\",\"")
+    }
+    this.pos++
+    const statement = this.equivalence()
+    return names.reduceRight<Statement>((body, name) => {
+      const variable: Variable = { name, description }
+      return { kind, variable, statement: body }
+    }, statement)
+  }
+}
+
+/**
+ * Parse a statement written in plain text.
+ *
+ * Atomic statements are written as `$...$` math, as `"..."` text with math inside (where `\"` stands for a quote),
+ * or as a bare identifier, which stands for the math `$x$`. Connectives may be written as symbols or
+ * keywords, as listed in `connectiveSyntax`, and parentheses group statements.
+ *
+ * @example
+ * parseStatement("forall x : $RR$, ($x > 0$ => exists y : $RR$, $y^2 = x$)")
+ *
+ * @throws `StatementParseError` with the offset of the problem if the text is not a statement
+ */
+export function parseStatement(text: string): Statement {
+  return new StatementParser(text, tokenize(text)).parse()
+}
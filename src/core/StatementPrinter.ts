@@ -0,0 +1,144 @@
+import { ContextVariable, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { parseAtomicStatement } from "./AtomicStatement"
+import { operandPrecedence, statementPrecedence } from "./StatementSyntax"
+import { leanTypstSymbols } from "./LeanSymbols"
+
+/**
+ * The syntax in which statements are printed:
+ * - `unicode`: readable text, with the math of atomic statements written with Unicode symbols
+ * - `parser`: the input syntax of `parseStatement`, which reads the printed statement back unchanged
+ */
+export type StatementPrintSyntax = "unicode" | "parser"
+
+/** Typst symbols and the Unicode characters they stand for, the Unicode side of `leanTypstSymbols` being plain Unicode math. */
+const unicodeSymbols = new Map<string, string>([
+  ...leanTypstSymbols.map(([unicode, typst]) => [typst, unicode] as const),
+  ["dot", "·"], ["lt.eq", "≤"], ["gt.eq", "≥"], ["eq.not", "≠"], ["=>", "⇒"], ["<=>", "⇔"]
+])
+
+const unicodeShorthands = [...unicodeSymbols.keys()].filter(typst => !/^[A-Za-z]/.test(typst)).sort((a, b) => b.length - a.length)
+
+/** Write Typst math with Unicode symbols, such as `ℝ` for `RR` and `≤` for `<=`, and without the quotes around text. */
+function typstMathToUnicode(math: string): string {
+  let result = ""
+  let rest = math
+  while (rest.length > 0) {
+    const name = /^[A-Za-z][A-Za-z.]*[A-Za-z]/.exec(rest)?.[0]
+    const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(rest)
+    const shorthand = unicodeShorthands.find(typst => rest.startsWith(typst))
+    if (name !== undefined) {
+      result += unicodeSymbols.get(name) ?? name
+      rest = rest.slice(name.length)
+    } else if (quoted) {
+      result += quoted[1]!.replace(/\\(.)/g, "$1")
+      rest = rest.slice(quoted[0].length)
+    } else if (shorthand) {
+      result += unicodeSymbols.get(shorthand)!
+      rest = rest.slice(shorthand.length)
+    } else {
+      result += rest[0]!
+      rest = rest.slice(1)
+    }
+  }
+  return result
+}
+
+/** Print an atomic statement, or a variable name or type, in the given syntax. */
+export function printAtomicStatement(input: string, syntax: StatementPrintSyntax = "unicode"): string {
+  const segments = parseAtomicStatement(input)
+  if (syntax === "unicode") {
+    return segments.map(segment => segment.type === "math" ? typstMathToUnicode(segment.content) : segment.content).join("")
+  }
+  const [segment] = segments
+  if (segments.length === 1 && segment!.type === "math" && segment!.start === 0 && segment!.end === input.length) return input
+  return `"${input.replace(/["\\]/g, char => `\\${char}`)}"`
+}
+
+function isQuantifier(statement: Statement): boolean {
+  if (typeof statement === "string") return false
+  if (statement.kind === "highlight") return isQuantifier(statement.statement)
+  return statement.kind === "universal" || statement.kind === "existential"
+}
+
+/**
+ * Print a statement that extends to the end of its enclosing parentheses if `rightmost` is set,
+ * in which case a quantified operand needs no parentheses, as its body extends as far to the right as possible.
+ */
+function print(statement: Statement, syntax: StatementPrintSyntax, rightmost: boolean): string {
+  if (typeof statement === "string") return printAtomicStatement(statement, syntax)
+
+  const operand = (child: Statement, position: "left" | "right", last: boolean) => {
+    const bare = statementPrecedence(child) >= operandPrecedence(statement, position) ||
+      (last && rightmost && isQuantifier(child))
+    return bare ? print(child, syntax, last && rightmost) : `(${print(child, syntax, true)})`
+  }
+
+  switch (statement.kind) {
+    case "conjunction":
+    case "disjunction":
+      return statement.statements
+        .map((child, idx) => operand(child, "left", idx === statement.statements.length - 1))
+        .join(statement.kind === "conjunction" ? " ∧ " : " ∨ ")
+    case "negation":
+      return `¬${operand(statement.statement, "right", true)}`
+    case "implication":
+      return `${operand(statement.antecedent, "left", false)} → ${operand(statement.consequent, "right", true)}`
+    case "equivalence":
+      return `${operand(statement.left, "left", false)} ↔ ${operand(statement.right, "right", true)}`
+    case "universal":
+    case "existential": {
+      const { name, description } = statement.variable
+      const type = description.length > 0 ? ` : ${printAtomicStatement(description, syntax)}` : ""
+      const quantifier = statement.kind === "universal" ? "∀" : "∃"
+      return `${quantifier} ${printAtomicStatement(name, syntax)}${type}, ${operand(statement.statement, "right", true)}`
+    }
+    case "highlight":
+      return print(statement.statement, syntax, rightmost)
+  }
+}
+
+/**
+ * Print a statement on one line with as few parentheses as its structure allows.
+ * Highlights are left out.
+ *
+ * @example
+ * printStatement({ kind: "negation", statement: { kind: "conjunction", statements: ["$p$", "$x in RR$"] } })
+ * // Returns: "¬(p ∧ x ∈ ℝ)"
+ */
+export function printStatement(statement: Statement, syntax: StatementPrintSyntax = "unicode"): string {
+  return print(statement, syntax, true)
+}
+
+/** Print a context variable, marking meta variables with `?` and giving the value of let variables. */
+export function printContextVariable(variable: ContextVariable, syntax: StatementPrintSyntax = "unicode"): string {
+  const declaration = `${printAtomicStatement(variable.name, syntax)} : ${printAtomicStatement(variable.description, syntax)}`
+  switch (variable.kind) {
+    case "free":
+      return declaration
+    case "meta":
+      return `?${declaration}`
+    case "let":
+      return `${declaration} := ${printAtomicStatement(variable.value, syntax)}`
+  }
+}
+
+/**
+ * Print a proof state context in the style of a goal view: one line per variable,
+ * then `label : statement` per hypothesis and `label ⊢ statement` per goal.
+ */
+export function printProofStateContext(context: ProofStateContext, syntax: StatementPrintSyntax = "unicode"): string {
+  return [
+    ...context.variables.map(variable => printContextVariable(variable, syntax)),
+    ...context.hypotheses.map(({ label, statement }) => `${label} : ${printStatement(statement, syntax)}`),
+    ...(context.goals.length > 0
+      ? context.goals.map(({ label, statement }) => `${label} ⊢ ${printStatement(statement, syntax)}`)
+      : ["⊢ no goals left"])
+  ].join("\n")
+}
+
+/** Print a proof state, numbering its contexts as cases if there are several. */
+export function printProofState(proofState: ProofState, syntax: StatementPrintSyntax = "unicode"): string {
+  if (proofState.length === 0) return "No goals left"
+  if (proofState.length === 1) return printProofStateContext(proofState[0]!, syntax)
+  return proofState.map((context, idx) => `Case ${idx + 1}\n${printProofStateContext(context, syntax)}`).join("\n\n")
+}
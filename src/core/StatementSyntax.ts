@@ -0,0 +1,93 @@
+import { Statement } from "./ProofStateZod"
+
+/**
+ * How tightly a statement binds, so that it can be parenthesized when it is an operand of a connective.
+ *
+ * From loosest to tightest: quantifiers (which extend as far to the right as possible),
+ * equivalence, implication, disjunction, conjunction, negation and atomic statements.
+ * Highlights are transparent.
+ */
+export function statementPrecedence(statement: Statement): number {
+  if (typeof statement === "string") return 6
+  switch (statement.kind) {
+    case "highlight": return statementPrecedence(statement.statement)
+    case "negation": return 5
+    case "conjunction": return 4
+    case "disjunction": return 3
+    case "implication": return 2
+    case "equivalence": return 1
+    case "universal":
+    case "existential": return 0
+  }
+}
+
+/**
+ * The minimum precedence of each operand of a statement that can be written without parentheses.
+ *
+ * Nested conjunctions and disjunctions are parenthesized to preserve their structure,
+ * and implication associates to the right.
+ */
+export function operandPrecedence(statement: Exclude<Statement, string>, position: "left" | "right"): number {
+  switch (statement.kind) {
+    case "conjunction":
+    case "disjunction":
+      return statementPrecedence(statement) + 1
+    case "negation":
+      return 5
+    case "implication":
+      return position === "left" ? 3 : 2
+    case "equivalence":
+      return 2
+    case "universal":
+    case "existential":
+    case "highlight":
+      return 0
+  }
+}
+
+/** A textual notation for statements, such as Typst markup or LaTeX. */
+export type StatementNotation = {
+  /** Render an atomic statement, or a variable name or type. */
+  atomic: (input: string) => string
+  conjunction: string
+  disjunction: string
+  negation: string
+  implication: string
+  equivalence: string
+  universal: string
+  existential: string
+  /** Render a highlighted statement, given the rendering of the statement itself. */
+  highlight: (rendered: string) => string
+}
+
+/**
+ * Render a statement in a notation, parenthesizing operands where the precedence of the connectives requires it.
+ *
+ * Quantified statements are written as `∀ x : T. P`, with the symbols of the notation.
+ */
+export function renderStatement(statement: Statement, notation: StatementNotation): string {
+  if (typeof statement === "string") return notation.atomic(statement)
+
+  const operand = (child: Statement, position: "left" | "right") => {
+    const rendered = renderStatement(child, notation)
+    return statementPrecedence(child) >= operandPrecedence(statement, position) ? rendered : `(${rendered})`
+  }
+
+  switch (statement.kind) {
+    case "conjunction":
+    case "disjunction":
+      return statement.statements.map(child => operand(child, "left")).join(` ${notation[statement.kind]} `)
+    case "negation":
+      return `${notation.negation} ${operand(statement.statement, "right")}`
+    case "implication":
+      return `${operand(statement.antecedent, "left")} ${notation.implication} ${operand(statement.consequent, "right")}`
+    case "equivalence":
+      return `${operand(statement.left, "left")} ${notation.equivalence} ${operand(statement.right, "right")}`
+    case "universal":
+    case "existential":
+      return `${notation[statement.kind]} ${notation.atomic(statement.variable.name)} : ` +
+        `${notation.atomic(statement.variable.description)}. ${operand(statement.statement, "right")}`
+    case "highlight":
+      return notation.highlight(renderStatement(statement.statement, notation))
+  }
+}
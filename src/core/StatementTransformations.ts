@@ -0,0 +1,206 @@
+import { MoveKind } from "./ProofDiscoveryState"
+import { Statement } from "./ProofStateZod"
+import { StatementAddress } from "./ProofStateSelectionContext"
+import { replaceAtAddress, statementAtAddress } from "./StatementAddress"
+
+/**
+ * A logical rewrite of a statement, such as one of De Morgan's laws.
+ *
+ * The kind records how the rewritten statement relates to the original one,
+ * in the same sense as the kind of a move.
+ *
+ * Transformations look through highlights around the statements they match, such as the negation
+ * in `¬¬A`, and drop those highlights from the result. Highlights within the parts they move around are kept.
+ */
+export type StatementTransformation = {
+  name: string
+  kind: MoveKind
+  /** Rewrite the statement, or return `null` if the transformation does not apply to it. */
+  apply: (statement: Statement) => Statement | null
+}
+
+const negate = (statement: Statement): Statement => ({ kind: "negation", statement })
+
+/** Whether a statement is a negation, looking through highlights. */
+function asNegation(statement: Statement): Statement | null {
+  if (typeof statement === "string") return null
+  if (statement.kind === "highlight") return asNegation(statement.statement)
+  return statement.kind === "negation" ? statement.statement : null
+}
+
+/** Strip highlights from the root of a statement. */
+function unhighlight(statement: Statement): Statement {
+  return (typeof statement !== "string" && statement.kind === "highlight") ? unhighlight(statement.statement) : statement
+}
+
+/**
+ * Push a negation one level inward, returning `null` if the statement is not a negation
+ * or its body is atomic.
+ */
+function pushNegationOnce(statement: Statement): Statement | null {
+  const negated = asNegation(statement)
+  if (negated === null) return null
+  const body = unhighlight(negated)
+  if (typeof body === "string") return null
+
+  switch (body.kind) {
+    case "conjunction":
+      return { kind: "disjunction", statements: body.statements.map(negate) }
+    case "disjunction":
+      return { kind: "conjunction", statements: body.statements.map(negate) }
+    case "negation":
+      return body.statement
+    case "implication":
+      return { kind: "conjunction", statements: [body.antecedent, negate(body.consequent)] }
+    case "equivalence":
+      return { kind: "equivalence", left: body.left, right: negate(body.right) }
+    case "universal":
+      return { kind: "existential", variable: body.variable, statement: negate(body.statement) }
+    case "existential":
+      return { kind: "universal", variable: body.variable, statement: negate(body.statement) }
+    case "highlight":
+      return null
+  }
+}
+
+/** Push all negations down to atomic statements. */
+function negationNormalForm(statement: Statement): Statement {
+  const pushed = pushNegationOnce(statement)
+  if (pushed !== null) return negationNormalForm(pushed)
+  if (typeof statement === "string") return statement
+
+  switch (statement.kind) {
+    case "conjunction":
+    case "disjunction":
+      return { kind: statement.kind, statements: statement.statements.map(negationNormalForm) }
+    case "negation":
+    case "highlight":
+      return { kind: statement.kind, statement: negationNormalForm(statement.statement) }
+    case "implication":
+      return { kind: "implication", antecedent: negationNormalForm(statement.antecedent), consequent: negationNormalForm(statement.consequent) }
+    case "equivalence":
+      return { kind: "equivalence", left: negationNormalForm(statement.left), right: negationNormalForm(statement.right) }
+    case "universal":
+    case "existential":
+      return { kind: statement.kind, variable: statement.variable, statement: negationNormalForm(statement.statement) }
+  }
+}
+
+/** `¬(A ∧ B) ≡ ¬A ∨ ¬B` and `¬(A ∨ B) ≡ ¬A ∧ ¬B`, in either direction. */
+export const deMorgan: StatementTransformation = {
+  name: "De Morgan",
+  kind: "equivalence",
+  apply: statement => {
+    const negated = asNegation(statement)
+    const body = negated !== null ? unhighlight(negated) : null
+    if (body !== null && typeof body !== "string" && (body.kind === "conjunction" || body.kind === "disjunction")) {
+      return pushNegationOnce(statement)
+    }
+
+    const list = unhighlight(statement)
+    if (typeof list === "string" || (list.kind !== "conjunction" && list.kind !== "disjunction")) return null
+    const negatedStatements = list.statements.map(asNegation)
+    if (negatedStatements.length === 0 || negatedStatements.some(s => s === null)) return null
+    return negate({
+      kind: list.kind === "conjunction" ? "disjunction" : "conjunction",
+      statements: negatedStatements as Statement[]
+    })
+  }
+}
+
+/** `¬¬A ≡ A` */
+export const eliminateDoubleNegation: StatementTransformation = {
+  name: "Remove double negation",
+  kind: "equivalence",
+  apply: statement => {
+    const negated = asNegation(statement)
+    return negated !== null ? asNegation(negated) : null
+  }
+}
+
+/** `¬∀x. P ≡ ∃x. ¬P` and `¬∃x. P ≡ ∀x. ¬P` */
+export const negateQuantifier: StatementTransformation = {
+  name: "Negate quantifier",
+  kind: "equivalence",
+  apply: statement => {
+    const negated = asNegation(statement)
+    const body = negated !== null ? unhighlight(negated) : null
+    if (body === null || typeof body === "string" || (body.kind !== "universal" && body.kind !== "existential")) return null
+    return pushNegationOnce(statement)
+  }
+}
+
+/** Push a negation one level inward through any connective or quantifier. */
+export const pushNegationInward: StatementTransformation = {
+  name: "Push negation inward",
+  kind: "equivalence",
+  apply: pushNegationOnce
+}
+
+/** Push all negations within a statement down to atomic statements. */
+export const pushNegationsToAtoms: StatementTransformation = {
+  name: "Push negations to atoms",
+  kind: "equivalence",
+  apply: statement => {
+    const result = negationNormalForm(statement)
+    return JSON.stringify(result) === JSON.stringify(statement) ? null : result
+  }
+}
+
+/** `A ⇒ B ≡ ¬A ∨ B` */
+export const implicationToDisjunction: StatementTransformation = {
+  name: "Implication to disjunction",
+  kind: "equivalence",
+  apply: statement => {
+    const implication = unhighlight(statement)
+    if (typeof implication === "string" || implication.kind !== "implication") return null
+    return { kind: "disjunction", statements: [negate(implication.antecedent), implication.consequent] }
+  }
+}
+
+/** `¬A ∨ B ≡ A ⇒ B` */
+export const disjunctionToImplication: StatementTransformation = {
+  name: "Disjunction to implication",
+  kind: "equivalence",
+  apply: statement => {
+    const disjunction = unhighlight(statement)
+    if (typeof disjunction === "string" || disjunction.kind !== "disjunction" || disjunction.statements.length !== 2) return null
+    const [left, right] = disjunction.statements as [Statement, Statement]
+    const antecedent = asNegation(left)
+    return antecedent !== null ? { kind: "implication", antecedent, consequent: right } : null
+  }
+}
+
+/** `A ⇒ B ≡ ¬B ⇒ ¬A` */
+export const contrapositive: StatementTransformation = {
+  name: "Contrapositive",
+  kind: "equivalence",
+  apply: statement => {
+    const implication = unhighlight(statement)
+    if (typeof implication === "string" || implication.kind !== "implication") return null
+    return { kind: "implication", antecedent: negate(implication.consequent), consequent: negate(implication.antecedent) }
+  }
+}
+
+/** All available transformations, in the order in which they should be offered to the user. */
+export const statementTransformations: StatementTransformation[] = [
+  pushNegationInward,
+  pushNegationsToAtoms,
+  deMorgan,
+  eliminateDoubleNegation,
+  negateQuantifier,
+  implicationToDisjunction,
+  disjunctionToImplication,
+  contrapositive
+]
+
+/**
+ * Apply a transformation to the sub-statement at an address.
+ *
+ * @returns The transformed statement, or `null` if the transformation does not apply at the address
+ * @throws `StatementAddressError` if the address does not describe a location within the statement
+ */
+export function applyTransformationAtAddress(statement: Statement, address: StatementAddress, transformation: StatementTransformation): Statement | null {
+  const transformed = transformation.apply(statementAtAddress(statement, address))
+  return transformed === null ? null : replaceAtAddress(statement, address, transformed)
+}
@@ -29,4 +29,86 @@ export function areSubExpressionSelectionsEqual(a: SubExpressionCoreWithIndex, b
     a.source_start === b.source_start &&
     a.source_end === b.source_end &&
     a.index === b.index
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a sub-expression lies within another one. Of two sub-expressions with the same source range,
+ * the one listed first is taken to contain the other, so that containment forms a tree.
+ */
+function containsSubExpression(subexprs: SubExpressionCore[], outer: number, inner: number): boolean {
+  const a = subexprs[outer]!
+  const b = subexprs[inner]!
+  if (outer === inner || a.source_start > b.source_start || b.source_end > a.source_end) return false
+  return a.source_end - a.source_start > b.source_end - b.source_start || outer < inner
+}
+
+/** The index of the smallest sub-expression containing the given one, or `null` if it is not nested in any other. */
+export function parentSubExpression(subexprs: SubExpressionCore[], idx: number): number | null {
+  let parent: number | null = null
+  subexprs.forEach((_, candidate) => {
+    if (containsSubExpression(subexprs, candidate, idx) &&
+      (parent === null || containsSubExpression(subexprs, parent, candidate))) {
+      parent = candidate
+    }
+  })
+  return parent
+}
+
+/**
+ * The index of the parent of every sub-expression, as given by `parentSubExpression`.
+ * Computing this takes quadratic time, so it should be done once and passed to the functions walking the nesting.
+ */
+export function subExpressionParents(subexprs: SubExpressionCore[]): (number | null)[] {
+  return subexprs.map((_, idx) => parentSubExpression(subexprs, idx))
+}
+
+/**
+ * The indices of the sub-expressions directly nested in the given one, or of the outermost sub-expressions
+ * if the index is `null`, ordered by their position in the source.
+ *
+ * @param parents - The parents of the sub-expressions, as computed by `subExpressionParents`
+ */
+export function childSubExpressions(subexprs: SubExpressionCore[], parents: (number | null)[], idx: number | null): number[] {
+  return parents
+    .flatMap((parent, child) => parent === idx ? [child] : [])
+    .sort((a, b) => subexprs[a]!.source_start - subexprs[b]!.source_start || a - b)
+}
+
+/**
+ * The indices of a sub-expression and of every sub-expression containing it, from the innermost outwards.
+ *
+ * @param parents - The parents of the sub-expressions, as computed by `subExpressionParents`
+ */
+export function enclosingSubExpressions(parents: (number | null)[], idx: number): number[] {
+  const enclosing = [idx]
+  for (let parent = parents[idx] ?? null; parent !== null; parent = parents[parent] ?? null) {
+    enclosing.push(parent)
+  }
+  return enclosing
+}
+
+/** A rectangle in the coordinates of the SVG in which sub-expressions are rendered. */
+export type BoundingBox = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * The index of the sub-expression with the smallest bounding box that covers the given box,
+ * or `null` if none does. A box of zero size finds the innermost sub-expression at a point.
+ */
+export function smallestCoveringSubExpression(subexprs: SubExpression[], box: BoundingBox): number | null {
+  let smallest: number | null = null
+  let smallestArea = Infinity
+  subexprs.forEach((s, idx) => {
+    const covers = box.x >= s.x && box.x + box.width <= s.x + s.width &&
+      box.y >= s.y && box.y + box.height <= s.y + s.height
+    if (covers && s.width * s.height < smallestArea) {
+      smallestArea = s.width * s.height
+      smallest = idx
+    }
+  })
+  return smallest
+}
@@ -0,0 +1,106 @@
+import { discoveryPath, moveKindExplanations, ProofDiscoveryState, ProofNodeId } from "./ProofDiscoveryState"
+import { ContextVariable, ProofState, ProofStateContext, Statement } from "./ProofStateZod"
+import { parseAtomicStatement } from "./AtomicStatement"
+import { renderStatement, StatementNotation } from "./StatementSyntax"
+
+/** Escape the characters that have a meaning in Typst markup, including the `/` starting `//` and `/*` comments. */
+function escapeTypstText(text: string): string {
+  return text.replace(/[\\#*_`<>@[\]~$=+/-]/g, char => `\\${char}`)
+}
+
+/** Render an atomic statement, keeping its math as it is and escaping the text around it. */
+function atomicToTypst(input: string): string {
+  return parseAtomicStatement(input)
+    .map(segment => segment.type === "math" ? `$${segment.content}$` : escapeTypstText(segment.content))
+    .join("")
+}
+
+/** Typst markup for statements, with the connectives written as Typst symbols. */
+const typstNotation: StatementNotation = {
+  atomic: atomicToTypst,
+  conjunction: "#sym.and",
+  disjunction: "#sym.or",
+  negation: "#sym.not",
+  implication: "#sym.arrow.r.double",
+  equivalence: "#sym.arrow.l.r.double",
+  universal: "#sym.forall",
+  existential: "#sym.exists",
+  highlight: rendered => `#highlight[${rendered}]`
+}
+
+/**
+ * Render a statement as Typst markup.
+ *
+ * Atomic statements keep their `$...$` math, connectives are written as Typst symbols,
+ * and operands are parenthesized where the precedence of the connectives requires it.
+ */
+export function statementToTypst(statement: Statement): string {
+  return renderStatement(statement, typstNotation)
+}
+
+function variableToTypst(variable: ContextVariable): string {
+  const declaration = `${atomicToTypst(variable.name)} : ${atomicToTypst(variable.description)}`
+  switch (variable.kind) {
+    case "free":
+      return declaration
+    case "meta":
+      return `?${declaration} _(to be determined)_`
+    case "let":
+      return `${declaration} := ${atomicToTypst(variable.value)}`
+  }
+}
+
+function contextToTypst(context: ProofStateContext): string {
+  const lines: string[] = []
+  if (context.variables.length > 0) {
+    lines.push("*Variables*", ...context.variables.map(v => `- ${variableToTypst(v)}`))
+  }
+  if (context.hypotheses.length > 0) {
+    lines.push("*Hypotheses*", ...context.hypotheses.map(h => `- (${escapeTypstText(h.label)}) ${statementToTypst(h.statement)}`))
+  }
+  lines.push("*Goals*")
+  if (context.goals.length > 0) {
+    lines.push(...context.goals.map(g => `- (${escapeTypstText(g.label)}) #sym.tack.r ${statementToTypst(g.statement)}`))
+  } else {
+    lines.push("- _None left: this case is proved._")
+  }
+  return lines.join("\n")
+}
+
+/** Render a proof state as Typst markup, numbering its contexts as cases if there are several. */
+export function proofStateToTypst(proofState: ProofState): string {
+  if (proofState.length === 1) return contextToTypst(proofState[0]!)
+  if (proofState.length === 0) return "_No goals left._"
+  return proofState.map((context, idx) => `=== Case ${idx + 1}\n${contextToTypst(context)}`).join("\n\n")
+}
+
+/**
+ * Write the path of moves from the root node to the given node as a Typst document.
+ *
+ * The document starts with the statement of the session, followed by one section per step
+ * with the kind and description of the move and the resulting proof state.
+ *
+ * @param state - The proof discovery session
+ * @param nodeId - The last node of the path, typically a node whose proof state is closed
+ * @returns The source of the Typst document
+ * @throws `Error` if the node does not exist
+ */
+export function discoveryPathToTypst(state: ProofDiscoveryState, nodeId: ProofNodeId): string {
+  const steps = discoveryPath(state.graph, nodeId)
+  const sections = steps.map(({ proofState, move }, idx) => {
+    const heading = move === null ? "== Initial proof state" : `== Step ${idx}`
+    const moveLines = move === null ? [] : [
+      `*Move* (${move.kind}: ${moveKindExplanations[move.kind]}): ${atomicToTypst(move.description)}`,
+      ""
+    ]
+    return [heading, "", ...moveLines, proofStateToTypst(proofState)].join("\n")
+  })
+
+  return [
+    `#set document(title: ${JSON.stringify(state.statement)})`,
+    "",
+    `= ${atomicToTypst(state.statement)}`,
+    "",
+    ...sections.flatMap(section => [section, ""])
+  ].join("\n")
+}
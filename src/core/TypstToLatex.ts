@@ -0,0 +1,281 @@
+/**
+ * Best-effort conversion of Typst math, as found between the dollar signs of atomic statements, into LaTeX math.
+ *
+ * Only the common part of Typst math notation is understood: single-letter variables, numbers, operators,
+ * sub- and superscripts, named symbols such as `RR`, `alpha` or `lt.eq`, and a few functions such as `sqrt`,
+ * `frac` and `abs`. Anything else makes the conversion fail, so that the caller can mark the math as unconverted
+ * rather than produce LaTeX with a different meaning.
+ */
+
+/** The result of converting Typst math: either the LaTeX math, or the reason why it could not be converted. */
+export type TypstToLatexResult =
+  | { success: true, latex: string }
+  | { success: false, reason: string }
+
+/** Named Typst symbols and their LaTeX equivalents. */
+const symbols: Record<string, string> = {
+  // Greek letters
+  alpha: "\\alpha", beta: "\\beta", gamma: "\\gamma", delta: "\\delta", epsilon: "\\varepsilon",
+  "epsilon.alt": "\\epsilon", zeta: "\\zeta", eta: "\\eta", theta: "\\theta", "theta.alt": "\\vartheta",
+  iota: "\\iota", kappa: "\\kappa", lambda: "\\lambda", mu: "\\mu", nu: "\\nu", xi: "\\xi", omicron: "o",
+  pi: "\\pi", rho: "\\rho", sigma: "\\sigma", tau: "\\tau", upsilon: "\\upsilon", phi: "\\varphi",
+  "phi.alt": "\\phi", chi: "\\chi", psi: "\\psi", omega: "\\omega",
+  Gamma: "\\Gamma", Delta: "\\Delta", Theta: "\\Theta", Lambda: "\\Lambda", Xi: "\\Xi", Pi: "\\Pi",
+  Sigma: "\\Sigma", Upsilon: "\\Upsilon", Phi: "\\Phi", Psi: "\\Psi", Omega: "\\Omega",
+  // Number sets
+  NN: "\\mathbb{N}", ZZ: "\\mathbb{Z}", QQ: "\\mathbb{Q}", RR: "\\mathbb{R}", CC: "\\mathbb{C}",
+  // Relations
+  lt: "<", gt: ">", "lt.eq": "\\le", "gt.eq": "\\ge", "eq.not": "\\neq", approx: "\\approx", equiv: "\\equiv",
+  prop: "\\propto", divides: "\\mid", in: "\\in", "in.not": "\\notin", subset: "\\subset", "subset.eq": "\\subseteq",
+  supset: "\\supset", "supset.eq": "\\supseteq",
+  // Operators
+  times: "\\times", dot: "\\cdot", div: "\\div", "plus.minus": "\\pm", "minus.plus": "\\mp", union: "\\cup",
+  sect: "\\cap", without: "\\setminus", compose: "\\circ", partial: "\\partial", nabla: "\\nabla",
+  sum: "\\sum", product: "\\prod", integral: "\\int",
+  // Logic and arrows
+  forall: "\\forall", exists: "\\exists", not: "\\lnot", and: "\\land", or: "\\lor", "tack.r": "\\vdash",
+  top: "\\top", bot: "\\bot", "arrow.r": "\\rightarrow", "arrow.l": "\\leftarrow", "arrow.r.double": "\\Rightarrow",
+  "arrow.l.double": "\\Leftarrow", "arrow.l.r.double": "\\Leftrightarrow", mapsto: "\\mapsto",
+  // Miscellaneous
+  infinity: "\\infty", oo: "\\infty", emptyset: "\\emptyset", ell: "\\ell", aleph: "\\aleph", dots: "\\dots",
+  "dots.c": "\\cdots", "angle.l": "\\langle", "angle.r": "\\rangle", "bar.v": "|", "bar.v.double": "\\|",
+  quad: "\\quad", mod: "\\bmod",
+  // Operator names
+  ...Object.fromEntries([
+    "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh",
+    "log", "ln", "exp", "lim", "limsup", "liminf", "max", "min", "sup", "inf", "det", "deg", "dim",
+    "gcd", "lcm", "ker", "arg", "Pr"
+  ].map(name => [name, `\\${name}`]))
+}
+
+/** Typst functions and how to write them in LaTeX given their converted arguments. */
+const functions: Record<string, { arity: number, latex: (args: string[]) => string }> = {
+  sqrt: { arity: 1, latex: ([x]) => `\\sqrt{${x}}` },
+  root: { arity: 2, latex: ([n, x]) => `\\sqrt[${n}]{${x}}` },
+  frac: { arity: 2, latex: ([a, b]) => `\\frac{${a}}{${b}}` },
+  binom: { arity: 2, latex: ([n, k]) => `\\binom{${n}}{${k}}` },
+  abs: { arity: 1, latex: ([x]) => `\\left|${x}\\right|` },
+  norm: { arity: 1, latex: ([x]) => `\\left\\|${x}\\right\\|` },
+  floor: { arity: 1, latex: ([x]) => `\\left\\lfloor ${x}\\right\\rfloor` },
+  ceil: { arity: 1, latex: ([x]) => `\\left\\lceil ${x}\\right\\rceil` },
+  bb: { arity: 1, latex: ([x]) => `\\mathbb{${x}}` },
+  cal: { arity: 1, latex: ([x]) => `\\mathcal{${x}}` },
+  frak: { arity: 1, latex: ([x]) => `\\mathfrak{${x}}` },
+  bold: { arity: 1, latex: ([x]) => `\\mathbf{${x}}` },
+  upright: { arity: 1, latex: ([x]) => `\\mathrm{${x}}` },
+  overline: { arity: 1, latex: ([x]) => `\\overline{${x}}` },
+  hat: { arity: 1, latex: ([x]) => `\\hat{${x}}` },
+  tilde: { arity: 1, latex: ([x]) => `\\tilde{${x}}` },
+  vec: { arity: 1, latex: ([x]) => `\\vec{${x}}` },
+  bar: { arity: 1, latex: ([x]) => `\\bar{${x}}` },
+  dot: { arity: 1, latex: ([x]) => `\\dot{${x}}` }
+}
+
+/** Operators made of several characters and their LaTeX equivalents. */
+const operators: [string, string][] = [
+  ["<==>", "\\iff"], ["<=>", "\\Leftrightarrow"], ["==>", "\\implies"], ["|->", "\\mapsto"], ["<->", "\\leftrightarrow"],
+  ["...", "\\dots"], ["->", "\\to"], ["<-", "\\leftarrow"], ["=>", "\\Rightarrow"], ["<=", "\\le"], [">=", "\\ge"],
+  ["!=", "\\neq"], [":=", "\\coloneqq"], ["||", "\\|"]
+]
+
+/** Characters with the same meaning in Typst and LaTeX math. */
+const plainCharacters = new Set("+-=<>()[]|,;:.!'/ ")
+
+type Token =
+  | { type: "identifier", text: string }
+  | { type: "literal", text: string }
+  | { type: "string", text: string }
+  | { type: "open" | "close" | "comma" | "script", text: string }
+
+function tokenize(math: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+  while (pos < math.length) {
+    const rest = math.slice(pos)
+    const identifier = /^[A-Za-z][A-Za-z0-9]*(?:\.[A-Za-z]+)*/.exec(rest)
+    const number = /^\d+(?:\.\d+)?/.exec(rest)
+    const string = /^"((?:[^"\\]|\\.)*)"/.exec(rest)
+    const operator = operators.find(([op]) => rest.startsWith(op))
+    const char = rest[0]!
+
+    if (identifier) {
+      tokens.push({ type: "identifier", text: identifier[0] })
+      pos += identifier[0].length
+    } else if (number) {
+      tokens.push({ type: "literal", text: number[0] })
+      pos += number[0].length
+    } else if (string) {
+      tokens.push({ type: "string", text: string[1]!.replace(/\\(.)/g, "$1") })
+      pos += string[0].length
+    } else if (operator) {
+      tokens.push({ type: "literal", text: ` ${operator[1]} ` })
+      pos += operator[0].length
+    } else if (char === "\\" && rest.length > 1) {
+      tokens.push({ type: "literal", text: escapeLatexMathCharacter(rest[1]!) })
+      pos += 2
+    } else if (char === "(") {
+      tokens.push({ type: "open", text: char })
+      pos++
+    } else if (char === ")") {
+      tokens.push({ type: "close", text: char })
+      pos++
+    } else if (char === ",") {
+      tokens.push({ type: "comma", text: char })
+      pos++
+    } else if (char === "^" || char === "_") {
+      tokens.push({ type: "script", text: char })
+      pos++
+    } else if (/\s/.test(char)) {
+      tokens.push({ type: "literal", text: " " })
+      pos += /^\s+/.exec(rest)![0].length
+    } else if (plainCharacters.has(char) || char.charCodeAt(0) > 127) {
+      tokens.push({ type: "literal", text: char })
+      pos++
+    } else if (char === "*") {
+      tokens.push({ type: "literal", text: "\\ast " })
+      pos++
+    } else if (char === "{" || char === "}" || char === "%") {
+      tokens.push({ type: "literal", text: `\\${char}` })
+      pos++
+    } else {
+      throw new Error(`the character "${char}" has no LaTeX equivalent`)
+    }
+  }
+  return tokens
+}
+
+function escapeLatexMathCharacter(char: string): string {
+  return "{}%#&_$".includes(char) ? `\\${char}` : char
+}
+
+/** A recursive descent over the tokens, converting them as it goes. */
+class Converter {
+  private pos = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  /** Convert tokens up to (but not including) a closing parenthesis or comma at this nesting level. */
+  sequence(): string {
+    let result = ""
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos]!
+      if (token.type === "close" || token.type === "comma") break
+      if (token.type === "script") {
+        this.pos++
+        result += `${token.text}{${this.scriptArgument()}}`
+      } else {
+        result += this.atom()
+      }
+    }
+    return result
+  }
+
+  /**
+   * The argument of a sub- or superscript, whose parentheses (if any) are only used for grouping.
+   * Without parentheses, the argument is a single atom, possibly preceded by a sign.
+   */
+  private scriptArgument(): string {
+    const token = this.tokens[this.pos]
+    if (token?.type === "open") {
+      this.pos++
+      const inner = this.sequence()
+      this.expect("close")
+      return inner
+    }
+    if (token === undefined || token.type === "close" || token.type === "comma" || token.type === "script") {
+      throw new Error("a sub- or superscript has no argument")
+    }
+    // A sign forms a single operand with the atom after it, as in `x^-1`
+    if (token.type === "literal" && ["-", "+", "−"].includes(token.text)) {
+      this.pos++
+      const next = this.tokens[this.pos]
+      const hasOperand = next !== undefined && next.type !== "close" && next.type !== "comma" && next.type !== "script"
+      return hasOperand ? token.text + this.atom() : token.text
+    }
+    return this.atom()
+  }
+
+  private atom(): string {
+    const token = this.tokens[this.pos++]!
+    switch (token.type) {
+      case "literal":
+        return token.text
+      case "string":
+        return `\\text{${token.text.replace(/[{}%#&_$\\]/g, char => char === "\\" ? "\\textbackslash{}" : `\\${char}`)}}`
+      case "open": {
+        const inner = this.sequence()
+        const close = this.tokens[this.pos]
+        // An unmatched parenthesis is rendered as such by Typst
+        if (close?.type !== "close") return `(${inner}`
+        this.pos++
+        return `(${inner})`
+      }
+      case "close":
+      case "comma":
+      case "script":
+        return token.text
+      case "identifier":
+        return this.identifier(token.text)
+    }
+  }
+
+  private identifier(name: string): string {
+    const isCall = this.tokens[this.pos]?.type === "open"
+    const fn = functions[name]
+    if (isCall && fn) {
+      this.pos++
+      const args = [this.sequence()]
+      while (this.tokens[this.pos]?.type === "comma") {
+        this.pos++
+        args.push(this.sequence())
+      }
+      this.expect("close")
+      if (args.length !== fn.arity) {
+        throw new Error(`${name} expects ${fn.arity} argument(s) but got ${args.length}`)
+      }
+      return fn.latex(args.map(arg => arg.trim()))
+    }
+    if (name.length === 1) return name
+    const symbol = symbols[name]
+    if (symbol === undefined) {
+      throw new Error(`the Typst identifier "${name}" is not known`)
+    }
+    // Separate control words from a following letter
+    return /^\\[A-Za-z]+$/.test(symbol) ? `${symbol} ` : symbol
+  }
+
+  private expect(type: Token["type"]): void {
+    if (this.tokens[this.pos]?.type !== type) {
+      throw new Error(type === "close" ? "a parenthesis is not closed" : `expected ${type}`)
+    }
+    this.pos++
+  }
+
+  /** Convert all tokens, keeping stray closing parentheses and commas as they are. */
+  all(): string {
+    let result = this.sequence()
+    while (this.pos < this.tokens.length) {
+      result += this.tokens[this.pos++]!.text + this.sequence()
+    }
+    return result
+  }
+}
+
+/**
+ * Convert Typst math into LaTeX math.
+ *
+ * @param math - The contents of a Typst math expression, without the dollar signs
+ * @returns The LaTeX math (without delimiters), or the reason why the math could not be converted
+ *
+ * @example
+ * typstMathToLatex("x^(n+1) <= sqrt(2) dot RR")
+ * // Returns: { success: true, latex: "x^{n+1} \\le \\sqrt{2} \\cdot \\mathbb{R}" }
+ */
+export function typstMathToLatex(math: string): TypstToLatexResult {
+  try {
+    const latex = new Converter(tokenize(math)).all()
+    return { success: true, latex: latex.replace(/ +/g, " ").trim() }
+  } catch (e) {
+    return { success: false, reason: e instanceof Error ? e.message : String(e) }
+  }
+}
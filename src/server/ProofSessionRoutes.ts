@@ -0,0 +1,106 @@
+import express, { NextFunction, Request, Response } from 'express'
+import { z, ZodError } from 'zod'
+import { nullProofDiscoveryState, proofDiscoveryStateReducer } from '../core/ProofDiscoveryState'
+import { applyProofDiscoveryAction, ProofDiscoveryActionError } from '../core/ProofDiscoveryActionValidation'
+import { ProofStateSchema } from '../core/ProofStateZod'
+import { ProofSessionNotFoundError, ProofSessionStore, serializeProofSession } from './ProofSessionStore'
+
+/** The body of a request creating a session, which starts from a single proof state. */
+export const CreateProofSessionRequestSchema = z.object({
+    statement: z.string(),
+    proofState: ProofStateSchema
+})
+export type CreateProofSessionRequest = z.infer<typeof CreateProofSessionRequestSchema>
+
+/** The JSON body of an error response. */
+export type ErrorResponse = {
+    error: string
+    issues?: { path: PropertyKey[], message: string }[]
+}
+
+function sendError(res: Response, status: number, error: unknown): void {
+    let body: ErrorResponse
+    if (error instanceof ZodError) {
+        body = { error: "Invalid data", issues: error.issues.map(({ path, message }) => ({ path, message })) }
+    } else if (error instanceof ProofDiscoveryActionError) {
+        body = { error: "Invalid action", issues: error.issues }
+    } else {
+        body = { error: error instanceof Error ? error.message : String(error) }
+    }
+    res.status(status).json(body)
+}
+
+/**
+ * The status of a client error raised by middleware, such as `express.json` rejecting malformed JSON,
+ * which marks its errors with an HTTP `status` and a `type` like `entity.parse.failed`.
+ *
+ * @returns The 4xx status of the error, or `null` if it is not a client error
+ */
+function clientErrorStatus(err: unknown): number | null {
+    if (typeof err !== "object" || err === null) return null
+    const { status, type } = err as { status?: unknown, type?: unknown }
+    if (typeof status === "number") {
+        return status >= 400 && status < 500 ? status : null
+    }
+    return typeof type === "string" && type.startsWith("entity.") ? 400 : null
+}
+
+/**
+ * Create the REST routes for proof discovery sessions.
+ *
+ * - `GET /` lists the stored sessions
+ * - `POST /` creates a session from a `CreateProofSessionRequest`
+ * - `GET /:id` returns a session with its serialized state
+ * - `POST /:id/actions` applies a `ProofDiscoveryAction` to a session and returns the updated session
+ *
+ * @param store - The store holding the sessions
+ * @returns An Express router to be mounted under a path such as `/api/sessions`
+ */
+export function proofSessionRouter(store: ProofSessionStore): express.Router {
+    const router = express.Router()
+    router.use(express.json({ limit: '5mb' }))
+
+    router.get('/', async (_req, res) => {
+        res.json(await store.list())
+    })
+
+    router.post('/', async (req, res) => {
+        const parsed = CreateProofSessionRequestSchema.safeParse(req.body)
+        if (!parsed.success) {
+            sendError(res, 400, parsed.error)
+            return
+        }
+        const state = proofDiscoveryStateReducer(nullProofDiscoveryState, { action: "initialize", ...parsed.data })
+        res.status(201).json(serializeProofSession(await store.create(state)))
+    })
+
+    router.get('/:id', async (req, res) => {
+        res.json(serializeProofSession(await store.get(req.params.id)))
+    })
+
+    router.post('/:id/actions', async (req, res) => {
+        let session
+        try {
+            session = await store.update(req.params.id, state => applyProofDiscoveryAction(state, req.body))
+        } catch (e) {
+            if (!(e instanceof ProofDiscoveryActionError)) throw e
+            sendError(res, 400, e)
+            return
+        }
+        res.json(serializeProofSession(session))
+    })
+
+    router.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+        const clientStatus = clientErrorStatus(err)
+        if (err instanceof ProofSessionNotFoundError) {
+            sendError(res, 404, err)
+        } else if (clientStatus !== null) {
+            sendError(res, clientStatus, err)
+        } else {
+            console.error(err)
+            sendError(res, 500, err)
+        }
+    })
+
+    return router
+}
@@ -0,0 +1,168 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { z } from 'zod'
+import { ProofDiscoveryState } from '../core/ProofDiscoveryState'
+import { SerializedProofDiscoveryState } from '../core/ProofDiscoveryStateZod'
+import { deserializeProofDiscoveryState, serializeProofDiscoveryState } from '../core/ProofDiscoveryStateSerialization'
+
+/** The metadata of a stored proof discovery session. */
+export const ProofSessionMetadataSchema = z.object({
+    id: z.uuid(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime()
+})
+export type ProofSessionMetadata = z.infer<typeof ProofSessionMetadataSchema>
+
+/**
+ * A session as written to disk.
+ *
+ * The state is checked separately by `deserializeProofDiscoveryState`,
+ * so that sessions written by older versions of the format are migrated on load.
+ */
+const StoredProofSessionSchema = ProofSessionMetadataSchema.extend({
+    state: z.unknown()
+})
+
+/** A stored proof discovery session. */
+export type ProofSession = ProofSessionMetadata & {
+    state: ProofDiscoveryState
+}
+
+/** A stored proof discovery session in the form in which it is sent to clients. */
+export type SerializedProofSession = ProofSessionMetadata & {
+    state: SerializedProofDiscoveryState
+}
+
+/** A short description of a stored session for listings. */
+export type ProofSessionSummary = ProofSessionMetadata & {
+    statement: string
+    nodeCount: number
+    isSolved: boolean
+}
+
+/** An error raised when a session does not exist in the store. */
+export class ProofSessionNotFoundError extends Error {
+    constructor(readonly id: string) {
+        super(`Session with ID ${id} does not exist.`)
+        this.name = "ProofSessionNotFoundError"
+    }
+}
+
+/** Convert a session into plain data that can be sent as JSON. */
+export function serializeProofSession(session: ProofSession): SerializedProofSession {
+    return { ...session, state: serializeProofDiscoveryState(session.state) }
+}
+
+/** Describe a session for listings without sending its whole graph. */
+export function summarizeProofSession(session: ProofSession): ProofSessionSummary {
+    const { id, createdAt, updatedAt, state } = session
+    return { id, createdAt, updatedAt, statement: state.statement, nodeCount: state.graph.order, isSolved: state.isSolved }
+}
+
+/**
+ * Proof discovery sessions stored as one JSON file per session in a directory on local disk.
+ *
+ * Every session is validated against the serialization schemas when it is read and before it is written,
+ * so a corrupted or hand-edited file is reported instead of being loaded into the reducer.
+ * Updates to the same session are applied one after the other.
+ */
+export class ProofSessionStore {
+    /** The pending update of each session, which later updates wait for. */
+    private readonly pendingUpdates = new Map<string, Promise<unknown>>()
+
+    constructor(readonly directory: string) {}
+
+    private sessionPath(id: string): string {
+        if (!ProofSessionMetadataSchema.shape.id.safeParse(id).success) {
+            throw new ProofSessionNotFoundError(id)
+        }
+        return path.join(this.directory, `${id}.json`)
+    }
+
+    private async write(session: ProofSession): Promise<void> {
+        const serialized = serializeProofSession(session)
+        // Check that the session can be read back before replacing the stored one
+        deserializeProofDiscoveryState(JSON.parse(JSON.stringify(serialized.state)))
+
+        await mkdir(this.directory, { recursive: true })
+        const target = this.sessionPath(session.id)
+        const temporary = `${target}.${randomUUID()}.tmp`
+        await writeFile(temporary, JSON.stringify(serialized, null, 2), 'utf8')
+        await rename(temporary, target)
+    }
+
+    /**
+     * Read a session from disk.
+     *
+     * @throws `ProofSessionNotFoundError` if there is no session with the ID
+     * @throws `ZodError` if the stored session is malformed
+     */
+    async get(id: string): Promise<ProofSession> {
+        let contents: string
+        try {
+            contents = await readFile(this.sessionPath(id), 'utf8')
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new ProofSessionNotFoundError(id)
+            }
+            throw e
+        }
+        const { state, ...metadata } = StoredProofSessionSchema.parse(JSON.parse(contents))
+        return { ...metadata, state: deserializeProofDiscoveryState(state) }
+    }
+
+    /** List the stored sessions, most recently updated first. Malformed files are skipped. */
+    async list(): Promise<ProofSessionSummary[]> {
+        let files: string[]
+        try {
+            files = await readdir(this.directory)
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') return []
+            throw e
+        }
+
+        const summaries: ProofSessionSummary[] = []
+        for (const file of files.filter(f => f.endsWith('.json'))) {
+            try {
+                summaries.push(summarizeProofSession(await this.get(path.basename(file, '.json'))))
+            } catch (e) {
+                console.warn(`Skipping unreadable session file ${file}:`, e)
+            }
+        }
+        return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    }
+
+    /** Store a new session with a fresh ID. */
+    async create(state: ProofDiscoveryState): Promise<ProofSession> {
+        const now = new Date().toISOString()
+        const session: ProofSession = { id: randomUUID(), createdAt: now, updatedAt: now, state }
+        await this.write(session)
+        return session
+    }
+
+    /**
+     * Replace the state of a session by a function of its current state.
+     *
+     * If the function throws, the stored session is left unchanged and the error is passed on.
+     *
+     * @throws `ProofSessionNotFoundError` if there is no session with the ID
+     */
+    async update(id: string, f: (state: ProofDiscoveryState) => ProofDiscoveryState): Promise<ProofSession> {
+        const previous = this.pendingUpdates.get(id) ?? Promise.resolve()
+        const update = previous.catch(() => {}).then(async () => {
+            const session = await this.get(id)
+            const updated: ProofSession = { ...session, updatedAt: new Date().toISOString(), state: f(session.state) }
+            await this.write(updated)
+            return updated
+        })
+        this.pendingUpdates.set(id, update)
+        try {
+            return await update
+        } finally {
+            if (this.pendingUpdates.get(id) === update) {
+                this.pendingUpdates.delete(id)
+            }
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import express from 'express'
+import ViteExpress from 'vite-express'
+import { ProofSessionStore } from './ProofSessionStore'
+import { proofSessionRouter } from './ProofSessionRoutes'
+
+/**
+ * Serve the app together with the REST API for proof discovery sessions.
+ *
+ * Sessions are stored as JSON files in the directory given by `SESSIONS_DIR` (by default `sessions`).
+ * In development the app is served by Vite with hot reloading; set `NODE_ENV=production`
+ * to serve the output of `vite build` instead.
+ */
+const port = Number(process.env.PORT ?? 3000)
+const store = new ProofSessionStore(process.env.SESSIONS_DIR ?? 'sessions')
+
+const app = express()
+app.use('/api/sessions', proofSessionRouter(store))
+
+ViteExpress.config({ mode: process.env.NODE_ENV === 'production' ? 'production' : 'development' })
+ViteExpress.listen(app, port, () => {
+    console.log(`Server listening on http://localhost:${port}`)
+})
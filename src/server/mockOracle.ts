@@ -0,0 +1,22 @@
+import express from 'express'
+import { mockMoveOracleReply } from '../core/MockMoveOracle'
+
+/**
+ * A move oracle for testing without an assistant, listening on `PORT` (by default 3001).
+ *
+ * It answers `POST /` with `mockMoveOracleReply`, which tries the built-in moves in turn on the selections
+ * and replies with the first one of the requested kind, or with status 422 if there is none.
+ */
+const port = Number(process.env.PORT ?? 3001)
+
+const app = express()
+app.use(express.json({ limit: '5mb' }))
+
+app.post('/', (req, res) => {
+    const { status, body } = mockMoveOracleReply(req.body)
+    res.status(status).json(body)
+})
+
+app.listen(port, () => {
+    console.log(`Mock move oracle listening on http://localhost:${port}`)
+})
@@ -0,0 +1,71 @@
+import { JSX } from "react";
+import { checkAtomicStatement, parseAtomicStatement } from "../src/core/AtomicStatement";
+import { atomicStatements } from "./samples/AtomicStatement";
+import { Check, CheckList } from "./Checks";
+
+/** Checks of the parsing of atomic statements, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "split an atomic statement into segments with their offsets",
+        check: () => JSON.stringify(parseAtomicStatement("if $x > 0$ then")) === JSON.stringify([
+            { type: "text", content: "if ", start: 0, end: 3 },
+            { type: "math", content: "x > 0", start: 3, end: 10 },
+            { type: "text", content: " then", start: 10, end: 15 }
+        ])
+    },
+    {
+        name: "read escaped dollar signs in text and keep them in math",
+        check: () => JSON.stringify(parseAtomicStatement("\\$5 per $x \\$$").map(segment => segment.content)) ===
+            JSON.stringify(["$5 per ", "x \\$"])
+    },
+    {
+        name: "report an unclosed dollar sign and keep it as text",
+        check: () => {
+            const [diagnostic] = checkAtomicStatement("$x$ and $y")
+            return diagnostic?.start === 8 && diagnostic.end === 10 &&
+                JSON.stringify(parseAtomicStatement("$x$ and $y").map(segment => segment.type)) === JSON.stringify(["math", "text"])
+        }
+    },
+    {
+        name: "report empty math and keep it as text",
+        check: () => {
+            const [diagnostic] = checkAtomicStatement("costs $$ or $x$")
+            return diagnostic?.start === 6 && diagnostic.end === 8 &&
+                JSON.stringify(parseAtomicStatement("costs $$ or $x$").map(segment => segment.content)) === JSON.stringify(["costs $$ or ", "x"])
+        }
+    },
+    {
+        name: "report problems only with the samples shown as written",
+        check: () => atomicStatements.every(({ input }) =>
+            (checkAtomicStatement(input).length > 0) === input.endsWith("is shown as written"))
+    }
+]
+
+export default function RenderAtomicStatements(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>AtomicStatement Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+
+            <h2>Segments</h2>
+            {atomicStatements.map(({ input }, idx) => (
+                <div key={idx} style={{
+                    marginBottom: '15px',
+                    padding: '10px',
+                    border: '1px solid #ddd',
+                    borderRadius: '5px',
+                    fontFamily: 'monospace',
+                    fontSize: '12px'
+                }}>
+                    {parseAtomicStatement(input).map((segment, segmentIdx) => (
+                        <div key={segmentIdx}>
+                            {segment.start}–{segment.end} {segment.type}: {JSON.stringify(segment.content)}
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    )
+}
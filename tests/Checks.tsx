@@ -0,0 +1,57 @@
+import { JSX, useEffect, useState } from "react";
+
+/** A named check of a test page, which should return (or resolve to) `true`. */
+export type Check = { name: string, check: () => boolean | Promise<boolean> }
+
+type CheckOutcome = { passed: boolean, message?: string }
+
+/** Whether calling the function throws an error of the given class for which `matches` holds. */
+export function throwsError<E extends Error>(
+    f: () => unknown,
+    errorClass: abstract new (...args: never[]) => E,
+    matches: (error: E) => boolean = () => true
+): boolean {
+    try {
+        f()
+        return false
+    } catch (e) {
+        return e instanceof errorClass && matches(e)
+    }
+}
+
+function runCheck(check: Check["check"]): CheckOutcome | Promise<CheckOutcome> {
+    const failed = (e: unknown): CheckOutcome => ({ passed: false, message: String(e) })
+    try {
+        const result = check()
+        return result instanceof Promise ? result.then(passed => ({ passed }), failed) : { passed: result }
+    } catch (e) {
+        return failed(e)
+    }
+}
+
+function CheckItem({ name, check }: Check): JSX.Element {
+    const [outcome] = useState(() => runCheck(check))
+    const [settled, setSettled] = useState(outcome instanceof Promise ? null : outcome)
+
+    useEffect(() => {
+        if (outcome instanceof Promise) outcome.then(setSettled)
+    }, [outcome])
+
+    if (!settled) {
+        return <li style={{ marginBottom: '5px', color: '#666', fontFamily: 'monospace' }}>… {name}</li>
+    }
+    return (
+        <li style={{ marginBottom: '5px', color: settled.passed ? '#16a34a' : '#dc2626', fontFamily: 'monospace' }}>
+            {settled.passed ? '✓' : '✗'} {name}{settled.message && `: ${settled.message}`}
+        </li>
+    )
+}
+
+/** Run the checks and list them with ✓ or ✗, along with the error of those that throw or reject. */
+export function CheckList({ checks }: { checks: Check[] }): JSX.Element {
+    return (
+        <ul style={{ listStyle: 'none', padding: 0 }}>
+            {checks.map((check, idx) => <CheckItem key={idx} {...check} />)}
+        </ul>
+    )
+}
@@ -0,0 +1,46 @@
+import { JSX } from "react";
+import { statementToTypst } from "../src/core/TypstExport";
+import { typstMathToLatex } from "../src/core/TypstToLatex";
+import { Check, CheckList } from "./Checks";
+
+/** Checks of the exports of statements and proofs, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "escape markup around math in Typst",
+        check: () => statementToTypst("cost #1 = $x_1$ or *more*") === "cost \\#1 \\= $x_1$ or \\*more\\*"
+    },
+    {
+        name: "escape slashes so that text does not start a Typst comment",
+        check: () => statementToTypst("either/or // not /* a comment */") ===
+            "either\\/or \\/\\/ not \\/\\* a comment \\*\\/"
+    },
+    {
+        name: "convert Typst math to LaTeX",
+        check: () => JSON.stringify(typstMathToLatex("x^(n+1) <= sqrt(2) dot RR")) ===
+            JSON.stringify({ success: true, latex: "x^{n+1} \\le \\sqrt{2} \\cdot \\mathbb{R}" })
+    },
+    {
+        name: "keep a sign with the atom after it in a sub- or superscript",
+        check: () => JSON.stringify([typstMathToLatex("x^-1"), typstMathToLatex("a_+n"), typstMathToLatex("e^-(x+1)")]) ===
+            JSON.stringify([
+                { success: true, latex: "x^{-1}" },
+                { success: true, latex: "a_{+n}" },
+                { success: true, latex: "e^{-(x+1)}" }
+            ])
+    },
+    {
+        name: "refuse to convert unknown Typst identifiers",
+        check: () => !typstMathToLatex("foo(x)").success
+    }
+]
+
+export default function RenderExports(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>Export Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -0,0 +1,107 @@
+import { JSX } from "react";
+import { nullProofDiscoveryState, ProofDiscoveryAction, proofDiscoveryStateReducer } from "../src/core/ProofDiscoveryState";
+import { discoveryPathToLean, proofStateToLeanTheorem, statementToLean, typstMathToLean } from "../src/core/LeanExport";
+import { ProofState } from "../src/core/ProofStateZod";
+import { Check, CheckList } from "./Checks";
+
+/** Whether the Typst math converts into the given Lean expression. */
+const convertsTo = (math: string, lean: string) => {
+    const result = typstMathToLean(math)
+    return result.success && result.lean === lean
+}
+
+const theorem = (...lines: string[]) => lines.join("\n") + "\n"
+
+const letState: ProofState = [{
+    variables: [{ kind: "let", name: "$n$", description: "$NN$", value: "$2 dot k$" }, { kind: "free", name: "$k$", description: "$NN$" }],
+    hypotheses: [{ label: "$\"hk\"$", statement: "$k > 0$" }],
+    goals: [{ label: "goal", statement: "$\"Even\" n$" }]
+}]
+
+/** Checks of the export to Lean, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "convert letters, numbers, operators and subscripts",
+        check: () => convertsTo("x_1 + 2 dot y <= z", "x₁ + 2 * y ≤ z") && convertsTo("a_(12) != b", "a₁₂ ≠ b")
+    },
+    {
+        name: "separate a function from its arguments by a space",
+        check: () => convertsTo("f(x) = g(f(y))", "f (x) = g (f (y))")
+    },
+    {
+        name: "unquote quoted names, keeping escaped characters",
+        check: () => convertsTo("\"Prime\"(p)", "Prime (p)") && convertsTo("\"Nat.succ\" n", "Nat.succ n") &&
+            convertsTo("\"a\\\"b\"", "a\"b")
+    },
+    {
+        name: "fail on names without a Lean equivalent and on empty math",
+        check: () => {
+            const frac = typstMathToLean("frac(1, 2)")
+            return !frac.success && frac.reason === "\"frac\" has no Lean equivalent." &&
+                !typstMathToLean("  ").success && !typstMathToLean("x; y").success
+        }
+    },
+    {
+        name: "parenthesize statements according to the precedence of the connectives",
+        check: () => statementToLean({
+            kind: "implication",
+            antecedent: { kind: "implication", antecedent: "$p$", consequent: "$q$" },
+            consequent: { kind: "negation", statement: { kind: "disjunction", statements: ["$p$", "$q$"] } }
+        }) === "(p → q) → ¬(p ∨ q)"
+    },
+    {
+        name: "leave untranslatable statements as a marked sorry",
+        check: () => statementToLean("$abs(x)$ is small -/") === "sorry /- untranslated: $abs(x)$ is small - / -/"
+    },
+    {
+        name: "bind let variables along with a hypothesis giving their value",
+        check: () => proofStateToLeanTheorem(letState, "even_n") === theorem(
+            "theorem even_n (n : ℕ) (n_def : n = 2 * k) (k : ℕ) (hk : k > 0) :",
+            "    Even n := by",
+            "  sorry")
+    },
+    {
+        name: "fall back to a generated name for labels that are not identifiers",
+        check: () => proofStateToLeanTheorem([{
+            variables: [{ kind: "let", name: "the number", description: "", value: "$1$" }],
+            hypotheses: [{ label: "positivity", statement: "$x > 0$" }, { label: "$x y$", statement: "$y > 0$" }],
+            goals: []
+        }], "t") === theorem(
+            "theorem t x /- untranslated: the number -/ (x_def : x /- untranslated: the number -/ = 1) (positivity : x > 0) " +
+            "(h2 /- untranslated: $x y$ -/ : y > 0) :",
+            "    True := by",
+            "  sorry")
+    },
+    {
+        name: "quantify meta variables existentially and conclude True for an empty proof state",
+        check: () => proofStateToLeanTheorem([{
+            variables: [{ kind: "meta", name: "$m$", description: "$NN$" }],
+            hypotheses: [],
+            goals: [{ label: "g1", statement: "$m > 1$" }, { label: "g2", statement: "$m < 3$" }]
+        }], "t").includes("    ∃ (m : ℕ), m > 1 ∧ m < 3 := by") &&
+            proofStateToLeanTheorem([], "t") === theorem("theorem t :", "    True := by", "  sorry")
+    },
+    {
+        name: "outline the path to a node as one step per move",
+        check: () => {
+            const state = ([
+                { action: "initialize", statement: "Show that $n$ is even -/", proofState: letState },
+                { action: "transition", move: { kind: "equivalence", description: "Unfold\nthe definition" }, newProofState: [] }
+            ] satisfies ProofDiscoveryAction[]).reduce(proofDiscoveryStateReducer, nullProofDiscoveryState)
+            const lean = discoveryPathToLean(state, 1)
+            return lean.startsWith("/-- Show that $n$ is even - / -/\ntheorem discovered (n : ℕ)") &&
+                lean.includes("\n  -- Step 1 (equivalence: ") && lean.includes("): Unfold the definition\n  have step1 : True := by\n    sorry\n  sorry\n")
+        }
+    }
+]
+
+export default function RenderLeanExport(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>LeanExport Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
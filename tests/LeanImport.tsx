@@ -0,0 +1,101 @@
+import { JSX } from "react";
+import { leanGoals } from "./samples/LeanGoals";
+import { LeanImportError, leanExpressionToTypstMath, leanGoalsToInitializeAction, parseLeanGoals, parseLeanProposition } from "../src/core/LeanImport";
+import { ProofState } from "../src/components/ProofState";
+import ProofStateContextProvider from "./ProofStateContext";
+import { Check, CheckList, throwsError } from "./Checks";
+
+/** Checks of the Lean import, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "parse a binder predicate of ∀ as an implication",
+        check: () => JSON.stringify(parseLeanProposition("∀ ε > 0, ε ≠ 0")) === JSON.stringify({
+            kind: "universal",
+            variable: { name: "$epsilon$", description: "" },
+            statement: { kind: "implication", antecedent: "$epsilon > 0$", consequent: "$epsilon != 0$" }
+        })
+    },
+    {
+        name: "parse → as right associative and ↔ below it",
+        check: () => JSON.stringify(parseLeanProposition("p → q → r ↔ s")) === JSON.stringify({
+            kind: "equivalence",
+            left: { kind: "implication", antecedent: "$p$", consequent: { kind: "implication", antecedent: "$q$", consequent: "$r$" } },
+            right: "$s$"
+        })
+    },
+    {
+        name: "keep parenthesized terms within an atomic statement",
+        check: () => parseLeanProposition("f (x ∧ y) = 0") === "$f (x ∧ y) = 0$"
+    },
+    {
+        name: "translate Greek letters with subscripts as one identifier",
+        check: () => leanExpressionToTypstMath("ε₁ > 0") === "epsilon_1 > 0" &&
+            leanExpressionToTypstMath("δ₂ ≤ ε₁ * x₃") === "delta_2 <= epsilon_1 dot x_3" &&
+            leanExpressionToTypstMath("ε ∈ ℝ") === "epsilon in RR"
+    },
+    {
+        name: "turn every goal into a context",
+        check: () => parseLeanGoals(leanGoals[2]!).map(context => context.goals[0]?.label).join() === "inl,inr"
+    },
+    {
+        name: "tell variables from hypotheses",
+        check: () => {
+            const [context] = parseLeanGoals("n : ℕ\nhn : Even n\nh2 : n > 2\n⊢ n ≥ 4")
+            return context!.variables.length === 1 && context!.hypotheses.map(h => h.label).join() === "hn,h2"
+        }
+    },
+    {
+        name: "keep variables with hypothesis names whose types are sorts or sets",
+        check: () => {
+            const [context] = parseLeanGoals(leanGoals[3]!)
+            return context!.variables.length === 2 && context!.hypotheses.map(h => h.label).join() === "hH"
+        }
+    },
+    {
+        name: "take the statement of a session from the whole first goal, including its continuation lines",
+        check: () => leanGoalsToInitializeAction(leanGoals[1]!).statement ===
+            "∀ (ε : ℝ), 0 < ε → ∃ δ, 0 < δ ∧ ∀ x, |x - a| < δ → |f x - f a| < ε"
+    },
+    {
+        name: "import let variables",
+        check: () => parseLeanGoals("n : ℕ := 3\n⊢ n = 3")[0]!.variables[0]!.kind === "let"
+    },
+    {
+        name: "reject text without a goal",
+        check: () => throwsError(() => parseLeanGoals("x : ℝ"), LeanImportError)
+    },
+    {
+        name: "reject unbalanced parentheses with the line",
+        check: () => throwsError(() => parseLeanGoals("x : ℝ\n⊢ (x = 0"), LeanImportError, e => e.line === 2)
+    }
+]
+
+export default function RenderLeanImport(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>Lean Import Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+
+            <h2>Imported Goals</h2>
+            <ProofStateContextProvider>
+                {leanGoals.map((goals, idx) => (
+                    <div key={idx} style={{
+                        display: 'flex',
+                        gap: '20px',
+                        marginBottom: '15px',
+                        padding: '10px',
+                        border: '1px solid #ddd',
+                        borderRadius: '5px'
+                    }}>
+                        <pre style={{ flex: 1, fontSize: '12px', margin: 0 }}>{goals}</pre>
+                        <div style={{ flex: 1 }}>
+                            <ProofState proofState={parseLeanGoals(goals)} />
+                        </div>
+                    </div>
+                ))}
+            </ProofStateContextProvider>
+        </div>
+    )
+}
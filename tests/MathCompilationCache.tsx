@@ -0,0 +1,128 @@
+import { JSX } from "react";
+import { compilationCancelledError, createMathCompilationCache, isCompilationCancelled, MathCompiler } from "../src/core/MathCompilationCache";
+import { Check, CheckList, throwsError } from "./Checks";
+
+/** A compiler answering at once, which counts how often it has been asked to compile each source. */
+function countingCompiler(): { compiler: MathCompiler, calls: string[] } {
+    const calls: string[] = []
+    return {
+        compiler: {
+            compile: async input => {
+                calls.push(input)
+                return `compiled ${input}`
+            }
+        },
+        calls
+    }
+}
+
+type PendingCall = { input: string, signal: AbortSignal, resolve: (result: string) => void }
+
+/** A compiler whose compilations stay pending until they are resolved by hand, or rejected when cancelled. */
+function manualCompiler(): { compiler: MathCompiler, calls: PendingCall[] } {
+    const calls: PendingCall[] = []
+    return {
+        compiler: {
+            compile: (input, signal) => new Promise<string>((resolve, reject) => {
+                calls.push({ input, signal: signal ?? new AbortController().signal, resolve })
+                signal?.addEventListener("abort", () => reject(compilationCancelledError()))
+            })
+        },
+        calls
+    }
+}
+
+/** How a compilation ended: with its result, `cancelled` or `failed`. */
+function outcome(promise: Promise<string>): Promise<string> {
+    return promise.then(result => result, (e: unknown) => isCompilationCancelled(e) ? "cancelled" : "failed")
+}
+
+/** Let pending promise callbacks run. */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+/** Checks of the compilation cache, each of which should resolve to `true`. */
+const checks: Check[] = [
+    {
+        name: "count hits and misses",
+        check: async () => {
+            const { compiler, calls } = countingCompiler()
+            const cache = createMathCompilationCache(compiler)
+            await cache.compile("a")
+            await cache.compile("a")
+            await cache.compile("b")
+            const { hits, misses, size } = cache.stats()
+            return hits === 1 && misses === 2 && size === 2 && calls.join() === "a,b"
+        }
+    },
+    {
+        name: "evict the least recently used result",
+        check: async () => {
+            const { compiler, calls } = countingCompiler()
+            const cache = createMathCompilationCache(compiler, 2)
+            for (const input of ["a", "b", "a", "c", "a", "b"]) {
+                await cache.compile(input)
+            }
+            // Using `a` again made `b` the least recently used result when `c` arrived
+            const { evictions, size } = cache.stats()
+            return calls.join() === "a,b,c,b" && evictions === 2 && size === 2
+        }
+    },
+    {
+        name: "share a pending compilation and cancel it only once every caller has",
+        check: async () => {
+            const { compiler, calls } = manualCompiler()
+            const cache = createMathCompilationCache(compiler)
+            const [first, second] = [new AbortController(), new AbortController()]
+            const results = [outcome(cache.compile("x", first.signal)), outcome(cache.compile("x", second.signal))]
+            first.abort()
+            await flush()
+            const stillRunning = calls.length === 1 && !calls[0]!.signal.aborted
+            second.abort()
+            return stillRunning && calls[0]!.signal.aborted && cache.stats().hits === 1 &&
+                (await Promise.all(results)).join() === "cancelled,cancelled"
+        }
+    },
+    {
+        name: "finish a shared compilation for the callers that did not cancel",
+        check: async () => {
+            const { compiler, calls } = manualCompiler()
+            const cache = createMathCompilationCache(compiler)
+            const cancelled = new AbortController()
+            const results = [outcome(cache.compile("x", cancelled.signal)), outcome(cache.compile("x"))]
+            cancelled.abort()
+            calls[0]!.resolve("compiled x")
+            return (await Promise.all(results)).join() === "cancelled,compiled x" && cache.stats().size === 1
+        }
+    },
+    {
+        name: "not cache a result that arrives after its source was invalidated",
+        check: async () => {
+            const { compiler, calls } = manualCompiler()
+            const cache = createMathCompilationCache(compiler)
+            const stale = outcome(cache.compile("x"))
+            cache.invalidate()
+            const fresh = outcome(cache.compile("x"))
+            calls[0]!.resolve("stale x")
+            await flush()
+            const staleCached = cache.stats().size > 0
+            calls[1]!.resolve("fresh x")
+            return !staleCached && calls.length === 2 && await stale === "stale x" && await fresh === "fresh x" &&
+                await cache.compile("x") === "fresh x"
+        }
+    },
+    {
+        name: "reject a cache size below 1",
+        check: () => throwsError(() => createMathCompilationCache(countingCompiler().compiler, 0), Error)
+    }
+]
+
+export default function RenderMathCompilationCache(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>MathCompilationCache Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
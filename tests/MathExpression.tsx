@@ -1,12 +1,34 @@
-import { JSX, useContext } from "react";
+import { JSX, useContext, useState } from "react";
 import "./ProofStateContext";
 import { expressions } from "./samples/MathExpression";
 import { atomicStatements } from "./samples/AtomicStatement";
 import ProofStateContextProvider from "./ProofStateContext";
-import { MathExpression } from "../src/components/MathExpression";
+import { MathExpression, WasmContext } from "../src/components/MathExpression";
 import { AtomicStatement } from "../src/components/AtomicStatement";
 import { ProofStateSelectionContext } from "../src/core/ProofStateSelectionContext";
 
+/** The statistics of the shared compilation cache, which are read again on refreshing. */
+function CompilationCacheStats(): JSX.Element {
+    const wasm = useContext(WasmContext)
+    const [, setVersion] = useState(0)
+    const stats = wasm?.current?.stats()
+
+    if (!stats) {
+        return <p style={{ color: '#666', fontStyle: 'italic' }}>No compiler loaded</p>
+    }
+
+    return (
+        <div style={{ padding: '10px', backgroundColor: '#f5f5f5', borderRadius: '5px', fontFamily: 'monospace' }}>
+            {stats.hits} hits, {stats.misses} misses, {stats.evictions} evictions, {stats.size} of {stats.maxSize} results cached{' '}
+            <button onClick={() => setVersion(v => v + 1)}>Refresh</button>{' '}
+            <button onClick={() => {
+                wasm?.current?.invalidate()
+                setVersion(v => v + 1)
+            }}>Clear</button>
+        </div>
+    )
+}
+
 function MathExpressionsContent(): JSX.Element {
     const { selections, dispatch } = useContext(ProofStateSelectionContext)
     
@@ -37,6 +59,9 @@ function MathExpressionsContent(): JSX.Element {
                 ))}
             </div>
             
+            <h2>Compilation Cache</h2>
+            <CompilationCacheStats />
+
             <h2>Current Selections</h2>
             <div style={{ padding: '10px', backgroundColor: '#f5f5f5', borderRadius: '5px' }}>
                 {selections.length === 0 ? (
@@ -0,0 +1,101 @@
+import { JSX } from "react";
+import axios, { AxiosError, AxiosInstance } from "axios";
+import { createHttpMoveOracle, MoveOracleError, MoveOracleRequest } from "../src/core/MoveOracle";
+import { mockMoveOracleReply } from "../src/core/MockMoveOracle";
+import { Statement } from "../src/core/ProofState";
+import { Check, CheckList } from "./Checks";
+
+const goal: Statement = { kind: "conjunction", statements: ["$p$", "$q$"] }
+
+const request: MoveOracleRequest = {
+    proofState: [{ variables: [], hypotheses: [], goals: [{ label: "goal", statement: goal }] }],
+    selections: [{
+        proofStateId: { proofNodeId: 0, proofContextId: 0 },
+        location: { kind: "goal", label: "goal" },
+        address: [],
+        selection: goal
+    }],
+    moveKind: "equivalence"
+}
+
+/** An axios instance answering every request in-process with the given reply instead of over HTTP. */
+function inProcessClient(reply: (data: unknown) => { status: number, body: unknown }): AxiosInstance {
+    return axios.create({
+        adapter: async config => {
+            const { status, body } = reply(JSON.parse(String(config.data)))
+            const response = { data: body, status, statusText: String(status), headers: {}, config }
+            if (status >= 400) {
+                throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response)
+            }
+            return response
+        }
+    })
+}
+
+async function rejectsWithOracleError(promise: Promise<unknown>): Promise<boolean> {
+    try {
+        await promise
+        return false
+    } catch (e) {
+        return e instanceof MoveOracleError
+    }
+}
+
+/** Checks of the move oracle client and the mock oracle, each of which should return or resolve to `true`. */
+const checks: Check[] = [
+    {
+        name: "answer with the first built-in move of the requested kind",
+        check: () => {
+            const reply = mockMoveOracleReply(request)
+            return reply.status === 200 && reply.body.move.description === "Split the goal goal into 2 goals"
+        }
+    },
+    {
+        name: "answer with status 422 if no move of the requested kind applies",
+        check: () => mockMoveOracleReply({ ...request, moveKind: "weakening" }).status === 422
+    },
+    {
+        name: "reject a malformed selection with status 400",
+        check: () => {
+            const { address: _, ...selection } = request.selections[0]!
+            return mockMoveOracleReply({ ...request, selections: [selection] }).status === 400
+        }
+    },
+    {
+        name: "reject unknown fields of nested objects with status 400",
+        check: () => mockMoveOracleReply({
+            ...request,
+            proofState: [{ variables: [], hypotheses: [], goals: [{ label: "goal", statement: goal, note: "" }] }]
+        }).status === 400
+    },
+    {
+        name: "propose a transition through the client",
+        check: async () => {
+            const transition = await createHttpMoveOracle(inProcessClient(mockMoveOracleReply)).proposeMove(request)
+            return transition.action === "transition" && transition.newProofState[0]?.goals.length === 2
+        }
+    },
+    {
+        name: "turn a rejected request into a MoveOracleError",
+        check: () => rejectsWithOracleError(
+            createHttpMoveOracle(inProcessClient(mockMoveOracleReply)).proposeMove({ ...request, moveKind: "weakening" }))
+    },
+    {
+        name: "reject a reply with unknown fields",
+        check: () => rejectsWithOracleError(createHttpMoveOracle(inProcessClient(data => {
+            const reply = mockMoveOracleReply(data)
+            return { status: reply.status, body: { ...reply.body, confidence: 1 } }
+        })).proposeMove(request))
+    }
+]
+
+export default function RenderMoveOracle(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>Move Oracle Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -0,0 +1,187 @@
+import { JSX } from "react";
+import { ProofState, Statement } from "../src/core/ProofState";
+import { ProofStateLocation, ProofStateSelection, StatementAddress } from "../src/core/ProofStateSelectionContext";
+import { SubExpressionCoreWithIndex } from "../src/core/SubExpression";
+import {
+    casesOnDisjunction,
+    chooseDisjunct,
+    introduceExistential,
+    introduceImplication,
+    introduceUniversal,
+    rewriteWithEquation,
+    splitConjunctionGoal,
+    splitConjunctionHypothesis
+} from "../src/core/Moves";
+import { Check, CheckList } from "./Checks";
+
+const existential: Statement = {
+    kind: "existential",
+    variable: { name: "$w$", description: "$RR$" },
+    statement: "$w = z$"
+}
+
+const implication: Statement = { kind: "implication", antecedent: "$z > 0$", consequent: existential }
+
+const universal: Statement = {
+    kind: "universal",
+    variable: { name: "$z$", description: "$RR$" },
+    statement: implication
+}
+
+const disjunctionGoal: Statement = { kind: "disjunction", statements: ["$x > 1$", "$2 y > 2$"] }
+
+const proofState: ProofState = [
+    {
+        variables: [{ kind: "free", name: "$x$", description: "$RR$" }, { kind: "free", name: "$y$", description: "$RR$" }],
+        hypotheses: [
+            { label: "h1", statement: { kind: "conjunction", statements: ["$x > 0$", "$y > 0$"] } },
+            { label: "h2", statement: { kind: "disjunction", statements: ["$x = 1$", "$x = 2$"] } },
+            { label: "eq", statement: "$y = x + 1$" }
+        ],
+        goals: [
+            { label: "goal", statement: universal },
+            { label: "g2", statement: disjunctionGoal },
+            { label: "g3", statement: "since $y > 0$, also $2 y > y$" },
+            { label: "g4", statement: { kind: "conjunction", statements: ["$x > 0$", "$y > 0$", "$x y > 0$"] } }
+        ]
+    },
+    { variables: [], hypotheses: [], goals: [{ label: "other", statement: "$1 > 0$" }] }
+]
+
+/** A selection within the first context of the proof state. */
+function select(location: ProofStateLocation, selection: Statement | SubExpressionCoreWithIndex, address: StatementAddress = []): ProofStateSelection {
+    return { proofStateId: { proofNodeId: 0, proofContextId: 0 }, location, address, selection }
+}
+
+const goal = (label: string): ProofStateLocation => ({ kind: "goal", label })
+const hypothesis = (label: string): ProofStateLocation => ({ kind: "hypothesis", label })
+
+/** The proof state with the first context replaced, for comparing the outcome of a move with the expected one. */
+function withFirstContext(changes: Partial<ProofState[number]>): string {
+    return JSON.stringify([{ ...proofState[0]!, ...changes }, proofState[1]!])
+}
+
+/** Checks of the built-in moves, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "introduce a universal goal as a free variable",
+        check: () => {
+            const result = introduceUniversal(proofState, [select(goal("goal"), universal)])
+            return result?.move.kind === "equivalence" && JSON.stringify(result.newProofState) === withFirstContext({
+                variables: [...proofState[0]!.variables, { kind: "free", name: "$z$", description: "$RR$" }],
+                goals: [{ label: "goal", statement: implication }, ...proofState[0]!.goals.slice(1)]
+            })
+        }
+    },
+    {
+        name: "not introduce a variable whose name is taken",
+        check: () => introduceUniversal([{ ...proofState[0]!, goals: [{ label: "goal", statement: { ...universal, variable: { name: "$x$", description: "$RR$" } } }] }],
+            [select(goal("goal"), universal)]) === null
+    },
+    {
+        name: "introduce an existential goal as a meta variable",
+        check: () => {
+            const state: ProofState = [{ ...proofState[0]!, goals: [{ label: "goal", statement: existential }] }]
+            const result = introduceExistential(state, [select(goal("goal"), existential)])
+            return JSON.stringify(result?.newProofState) === JSON.stringify([{
+                ...state[0]!,
+                variables: [...state[0]!.variables, { kind: "meta", name: "$w$", description: "$RR$" }],
+                goals: [{ label: "goal", statement: "$w = z$" }]
+            }])
+        }
+    },
+    {
+        name: "assume the antecedent of an implication goal under a fresh label",
+        check: () => {
+            const state: ProofState = [{ ...proofState[0]!, goals: [{ label: "goal", statement: implication }] }]
+            const result = introduceImplication(state, [select(goal("goal"), implication)])
+            return JSON.stringify(result?.newProofState) === JSON.stringify([{
+                ...state[0]!,
+                hypotheses: [...state[0]!.hypotheses, { label: "h3", statement: "$z > 0$" }],
+                goals: [{ label: "goal", statement: existential }]
+            }])
+        }
+    },
+    {
+        name: "split a conjunction goal in place",
+        check: () => {
+            const result = splitConjunctionGoal(proofState, [select(goal("g4"), proofState[0]!.goals[3]!.statement)])
+            return result?.move.description === "Split the goal g4 into 3 goals" &&
+                JSON.stringify(result.newProofState) === withFirstContext({
+                    goals: [...proofState[0]!.goals.slice(0, 3),
+                        { label: "g4.1", statement: "$x > 0$" }, { label: "g4.2", statement: "$y > 0$" }, { label: "g4.3", statement: "$x y > 0$" }]
+                })
+        }
+    },
+    {
+        name: "split a conjunction hypothesis in place",
+        check: () => JSON.stringify(splitConjunctionHypothesis(proofState, [select(hypothesis("h1"), proofState[0]!.hypotheses[0]!.statement)])?.newProofState) ===
+            withFirstContext({
+                hypotheses: [{ label: "h1.1", statement: "$x > 0$" }, { label: "h1.2", statement: "$y > 0$" }, ...proofState[0]!.hypotheses.slice(1)]
+            })
+    },
+    {
+        name: "consider each case of a disjunction hypothesis in a context of its own",
+        check: () => {
+            const result = casesOnDisjunction(proofState, [select(hypothesis("h2"), proofState[0]!.hypotheses[1]!.statement)])
+            const caseContext = (statement: Statement) => ({
+                ...proofState[0]!,
+                hypotheses: [proofState[0]!.hypotheses[0]!, { label: "h2", statement }, proofState[0]!.hypotheses[2]!]
+            })
+            return JSON.stringify(result?.newProofState) === JSON.stringify([caseContext("$x = 1$"), caseContext("$x = 2$"), proofState[1]!])
+        }
+    },
+    {
+        name: "prove the selected disjunct of a goal as a strengthening",
+        check: () => {
+            const result = chooseDisjunct(proofState, [select(goal("g2"), "$2 y > 2$", [{ kind: "disjunction", idx: 1 }])])
+            return result?.move.kind === "strengthening" && JSON.stringify(result.newProofState) === withFirstContext({
+                goals: [proofState[0]!.goals[0]!, { label: "g2", statement: "$2 y > 2$" }, ...proofState[0]!.goals.slice(2)]
+            })
+        }
+    },
+    {
+        name: "not choose a disjunct when the whole disjunction is selected",
+        check: () => chooseDisjunct(proofState, [select(goal("g2"), disjunctionGoal)]) === null
+    },
+    {
+        name: "rewrite a subexpression of the second formula of a statement with an equation",
+        check: () => {
+            const result = rewriteWithEquation(proofState, [
+                select(hypothesis("eq"), "$y = x + 1$"),
+                select(goal("g3"), { text: "y", source_start: 6, source_end: 7, index: 1 })
+            ])
+            return result?.move.description === "Rewrite $y$ as $x + 1$ using eq" && JSON.stringify(result.newProofState) === withFirstContext({
+                goals: [...proofState[0]!.goals.slice(0, 2), { label: "g3", statement: "since $y > 0$, also $2 y > (x + 1)$" }, proofState[0]!.goals[3]!]
+            })
+        }
+    },
+    {
+        name: "rewrite within a part of a statement, selecting the equation second",
+        check: () => JSON.stringify(rewriteWithEquation(proofState, [
+            select(goal("g2"), { text: "y", source_start: 2, source_end: 3, index: 0 }, [{ kind: "disjunction", idx: 1 }]),
+            select(hypothesis("eq"), "$y = x + 1$")
+        ])?.newProofState[0]!.goals[1]) === JSON.stringify({
+            label: "g2",
+            statement: { kind: "disjunction", statements: ["$x > 1$", "$2 (x + 1) > 2$"] }
+        })
+    },
+    {
+        name: "not rewrite a subexpression whose offsets do not match its text",
+        check: () => rewriteWithEquation(proofState, [
+            select(hypothesis("eq"), "$y = x + 1$"),
+            select(goal("g3"), { text: "y", source_start: 0, source_end: 1, index: 1 })
+        ]) === null
+    }
+]
+
+export default function RenderMoves(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>Moves Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -0,0 +1,78 @@
+import { JSX } from "react";
+import { proofDiscoveryActions } from "./samples/ProofDiscovery";
+import { nullProofDiscoveryState, ProofDiscoveryAction, proofDiscoveryStateReducer } from "../src/core/ProofDiscoveryState";
+import {
+    applyProofDiscoveryAction,
+    ProofDiscoveryActionError,
+    ProofDiscoveryActionIssue,
+    validateProofDiscoveryAction,
+    validatingProofDiscoveryDispatch
+} from "../src/core/ProofDiscoveryActionValidation";
+import { Check, CheckList, throwsError } from "./Checks";
+
+const sampleState = proofDiscoveryActions.reduce(proofDiscoveryStateReducer, nullProofDiscoveryState)
+
+const transition: ProofDiscoveryAction = {
+    action: "transition",
+    move: { kind: "equivalence", description: "Do nothing" },
+    newProofState: [{ variables: [], hypotheses: [], goals: [{ label: "goal", statement: "$p$" }] }]
+}
+
+/** The paths of the issues found with an action, such as `nodeId`. */
+function issuePaths(state: typeof sampleState, data: unknown): string[] {
+    const result = validateProofDiscoveryAction(state, data)
+    return result.success ? [] : result.issues.map(issue => issue.path.join("."))
+}
+
+/** Checks of the validation of actions, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "accept the sample actions",
+        check: () => proofDiscoveryActions.every((action, idx) =>
+            validateProofDiscoveryAction(proofDiscoveryActions.slice(0, idx).reduce(proofDiscoveryStateReducer, nullProofDiscoveryState), action).success)
+    },
+    {
+        name: "reject a malformed action with the path of the offending field",
+        check: () => JSON.stringify(issuePaths(sampleState, { action: "focus", nodeId: "1" })) === JSON.stringify(["nodeId"]) &&
+            issuePaths(sampleState, { action: "jump" }).length > 0
+    },
+    {
+        name: "reject an unknown node ID",
+        check: () => JSON.stringify(issuePaths(sampleState, { action: "focus", nodeId: 99 })) === JSON.stringify(["nodeId"]) &&
+            JSON.stringify(issuePaths(sampleState, { ...transition, action: "repair", nodeId: 99 })) === JSON.stringify(["nodeId"])
+    },
+    {
+        name: "reject a transition before the session is initialized",
+        check: () => JSON.stringify(issuePaths(nullProofDiscoveryState, transition)) === JSON.stringify(["action"])
+    },
+    {
+        name: "throw a ProofDiscoveryActionError instead of applying an invalid action",
+        check: () => throwsError(() => applyProofDiscoveryAction(sampleState, { action: "focus", nodeId: 99 }), ProofDiscoveryActionError,
+            e => e.issues.length === 1)
+    },
+    {
+        name: "dispatch only valid actions, checked against the latest state",
+        check: () => {
+            let state = nullProofDiscoveryState
+            const rejected: ProofDiscoveryActionIssue[][] = []
+            const dispatch = validatingProofDiscoveryDispatch(
+                () => state,
+                action => { state = proofDiscoveryStateReducer(state, action) },
+                issues => rejected.push(issues))
+            const outcomes = [dispatch(transition), dispatch(proofDiscoveryActions[0]), dispatch(transition), dispatch({ action: "focus", nodeId: 5 })]
+            return JSON.stringify(outcomes) === JSON.stringify([false, true, true, false]) &&
+                rejected.length === 2 && state.graph.order === 2
+        }
+    }
+]
+
+export default function RenderProofDiscoveryActionValidation(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>ProofDiscoveryActionValidation Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
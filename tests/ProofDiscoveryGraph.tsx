@@ -0,0 +1,136 @@
+import { JSX, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { proofDiscoveryActions } from "./samples/ProofDiscovery";
+import ProofStateContextProvider from "./ProofStateContext";
+import { ProofDiscoveryGraph } from "../src/components/ProofDiscoveryGraph";
+import { ProofDiscoveryHistory } from "../src/components/ProofDiscoveryHistory";
+import { ProofState } from "../src/components/ProofState";
+import { MovePalette } from "../src/components/MovePalette";
+import { nullProofDiscoveryState, parentProofNodeId } from "../src/core/ProofDiscoveryState";
+import { diffProofStates } from "../src/core/ProofStateDiff";
+import { discoveryPathToTypst } from "../src/core/TypstExport";
+import { discoveryPathToLatex } from "../src/core/LatexExport";
+import { discoveryPathToMarkdown } from "../src/core/MarkdownExport";
+import { discoveryPathToLean } from "../src/core/LeanExport";
+import { ProofDiscoveryStateContext, ProofStateIdContext } from "../src/core/ProofDiscoveryStateContext";
+import { currentProofDiscoveryState, initialProofDiscoveryHistory, ProofDiscoveryHistory as ProofDiscoveryHistoryType, ProofDiscoveryHistoryContext, proofDiscoveryHistoryReducer } from "../src/core/ProofDiscoveryHistoryContext";
+import { NewProblemForm } from "../src/components/NewProblemForm";
+import { formatProofDiscoveryActionIssue, validatingProofDiscoveryDispatch } from "../src/core/ProofDiscoveryActionValidation";
+
+const exporters = {
+    Typst: discoveryPathToTypst,
+    LaTeX: discoveryPathToLatex,
+    Markdown: discoveryPathToMarkdown,
+    Lean: discoveryPathToLean
+}
+
+/** Replay the sample actions, recording each of them in the history. */
+function initialHistory(): ProofDiscoveryHistoryType {
+    return proofDiscoveryActions.reduce(
+        proofDiscoveryHistoryReducer,
+        initialProofDiscoveryHistory(nullProofDiscoveryState)
+    )
+}
+
+function ProofDiscoveryGraphContent(): JSX.Element {
+    const [history, dispatchHistoryAction] = useReducer(proofDiscoveryHistoryReducer, undefined, initialHistory)
+    const [exportFormat, setExportFormat] = useState<keyof typeof exporters>('Typst')
+    const [rejection, setRejection] = useState<string | null>(null)
+
+    // Actions are checked against the latest state, which the dispatch function reads through this ref
+    const historyRef = useRef(history)
+    useEffect(() => {
+        historyRef.current = history
+    }, [history])
+    const dispatchProofDiscoveryAction = useMemo(() => validatingProofDiscoveryDispatch(
+        () => currentProofDiscoveryState(historyRef.current),
+        action => {
+            setRejection(null)
+            dispatchHistoryAction(action)
+        },
+        issues => setRejection(issues.map(formatProofDiscoveryActionIssue).join("; "))
+    ), [])
+
+    const proofDiscoveryState = currentProofDiscoveryState(history)
+    const { graph, currentNodeId, statement } = proofDiscoveryState
+    // The history starts from the uninitialized state, which has no current node
+    const proofState = graph.hasNode(currentNodeId) ? graph.getNodeAttribute(currentNodeId, 'proofState') : null
+    const parentNodeId = proofState ? parentProofNodeId(graph, currentNodeId) : null
+    const diff = proofState && parentNodeId !== null
+        ? diffProofStates(graph.getNodeAttribute(parentNodeId, 'proofState'), proofState)
+        : undefined
+
+    return (
+        <ProofDiscoveryHistoryContext.Provider value={{ history, dispatchHistoryAction }}>
+        <ProofDiscoveryStateContext.Provider value={{ proofDiscoveryState, dispatchProofDiscoveryAction }}>
+            <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+                <h1>ProofDiscoveryGraph Component Tests</h1>
+                <p style={{ color: '#666' }}>{statement}</p>
+                {rejection && <p style={{ color: '#dc2626' }}>Rejected action: {rejection}</p>}
+
+                <div style={{ display: 'flex', gap: '40px', alignItems: 'flex-start' }}>
+                    <div style={{
+                        padding: '15px',
+                        border: '1px solid #ddd',
+                        borderRadius: '5px',
+                        backgroundColor: '#fafafa'
+                    }}>
+                        <h2 style={{ marginTop: 0 }}>Discovery Graph</h2>
+                        <ProofDiscoveryGraph />
+
+                        <h2>History</h2>
+                        <ProofDiscoveryHistory />
+
+                        <h2>New Problem</h2>
+                        <NewProblemForm />
+                    </div>
+
+                    <div style={{ flex: 1 }}>
+                        {proofState ? <>
+                            <h2 style={{ marginTop: 0 }}>Proof State {currentNodeId}</h2>
+                            {parentNodeId !== null && (
+                                <p style={{ color: '#666' }}>Changes with respect to proof state {parentNodeId} are highlighted.</p>
+                            )}
+                            <ProofStateIdContext.Provider value={{ proofNodeId: currentNodeId, proofContextId: -1 }}>
+                                {diff
+                                    ? <ProofState proofState={proofState} diff={diff} />
+                                    : <ProofState proofState={proofState} />}
+                            </ProofStateIdContext.Provider>
+
+                            <h2>Moves</h2>
+                            <MovePalette />
+
+                            <h2>Export</h2>
+                            <p style={{ color: '#666' }}>
+                                The path of moves leading to proof state {currentNodeId} as{' '}
+                                <select value={exportFormat} onChange={e => setExportFormat(e.target.value as keyof typeof exporters)}>
+                                    {Object.keys(exporters).map(format => <option key={format}>{format}</option>)}
+                                </select>
+                            </p>
+                            <pre style={{
+                                padding: '10px',
+                                backgroundColor: '#f5f5f5',
+                                border: '1px solid #ddd',
+                                borderRadius: '5px',
+                                fontSize: '12px',
+                                whiteSpace: 'pre-wrap'
+                            }}>
+                                {exporters[exportFormat](proofDiscoveryState, currentNodeId)}
+                            </pre>
+                        </> : (
+                            <p style={{ color: '#666', fontStyle: 'italic' }}>No proof state yet: start a new problem or redo the first action.</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </ProofDiscoveryStateContext.Provider>
+        </ProofDiscoveryHistoryContext.Provider>
+    )
+}
+
+export default function RenderProofDiscoveryGraph(): JSX.Element {
+    return (
+        <ProofStateContextProvider>
+            <ProofDiscoveryGraphContent />
+        </ProofStateContextProvider>
+    )
+}
@@ -0,0 +1,88 @@
+import { JSX } from "react";
+import { ZodError } from "zod";
+import { proofDiscoveryActions } from "./samples/ProofDiscovery";
+import { nullProofDiscoveryState, proofDiscoveryStateReducer } from "../src/core/ProofDiscoveryState";
+import { deserializeProofDiscoveryState, serializeProofDiscoveryState } from "../src/core/ProofDiscoveryStateSerialization";
+import { SerializedProofDiscoveryState } from "../src/core/ProofDiscoveryStateZod";
+import { Check, CheckList, throwsError } from "./Checks";
+
+const sampleState = proofDiscoveryActions.reduce(proofDiscoveryStateReducer, nullProofDiscoveryState)
+const serializedSample = serializeProofDiscoveryState(sampleState)
+
+/** The serialized sample session with some of its data replaced. */
+function modifiedSample(modify: (serialized: SerializedProofDiscoveryState) => Partial<SerializedProofDiscoveryState>): SerializedProofDiscoveryState {
+    const serialized: SerializedProofDiscoveryState = JSON.parse(JSON.stringify(serializedSample))
+    return { ...serialized, ...modify(serialized) }
+}
+
+/** JSON with the keys of objects sorted, as parsing may reorder them. */
+function canonicalJson(data: unknown): string {
+    return JSON.stringify(data, (_key, value: unknown) => value && typeof value === "object" && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value)
+}
+
+/** Checks of the serialization of proof discovery sessions, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "round-trip the sample session through JSON",
+        check: () => canonicalJson(serializeProofDiscoveryState(deserializeProofDiscoveryState(JSON.parse(JSON.stringify(serializedSample))))) ===
+            canonicalJson(serializedSample)
+    },
+    {
+        name: "continue a deserialized session with a transition",
+        check: () => {
+            const state = proofDiscoveryStateReducer(deserializeProofDiscoveryState(serializedSample), {
+                action: "transition",
+                move: { kind: "other", description: "Continue" },
+                newProofState: []
+            })
+            return state.graph.order === serializedSample.nodes.length + 1
+        }
+    },
+    {
+        name: "reject node IDs that are not 0 to n - 1",
+        check: () => throwsError(() => deserializeProofDiscoveryState(modifiedSample(({ nodes }) => ({
+            nodes: nodes.map((node, idx) => idx === nodes.length - 1 ? { ...node, id: nodes.length } : node),
+            moves: [],
+            currentNodeId: 0
+        }))), ZodError, e => e.issues.some(issue => issue.message.includes("out of range")))
+    },
+    {
+        name: "reject two moves between the same nodes",
+        check: () => throwsError(() => deserializeProofDiscoveryState(modifiedSample(({ moves }) => ({
+            moves: [...moves, { ...moves[0]!, source: moves[0]!.target, target: moves[0]!.source }]
+        }))), ZodError, e => e.issues.some(issue => issue.message.includes("more than one move")))
+    },
+    {
+        name: "reject a node that is not joined to a node with a smaller ID",
+        check: () => throwsError(() => deserializeProofDiscoveryState(modifiedSample(({ nodes, moves }) => ({
+            moves: moves.filter(({ source, target }) => Math.max(source, target) !== nodes.length - 1)
+        }))), ZodError, e => e.issues.some(issue => issue.message.includes("joined to 0")))
+    },
+    {
+        name: "reject a node joined to two nodes with smaller IDs",
+        check: () => throwsError(() => deserializeProofDiscoveryState(modifiedSample(({ nodes, moves }) => {
+            const last = nodes.length - 1
+            const other = nodes.findIndex((_, id) => id < last &&
+                !moves.some(({ source, target }) => Math.min(source, target) === id && Math.max(source, target) === last))
+            return { moves: [...moves, { source: last, target: other, move: { kind: "other", description: "Shortcut" } }] }
+        })), ZodError, e => e.issues.some(issue => issue.message.includes("joined to 2")))
+    }
+]
+
+export default function RenderProofDiscoverySerialization(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>Proof Discovery Serialization Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+
+            <h2>Serialized Sample</h2>
+            <pre style={{ fontSize: '12px', padding: '10px', backgroundColor: '#f5f5f5', borderRadius: '5px', overflow: 'auto' }}>
+                {JSON.stringify(serializedSample, null, 2)}
+            </pre>
+        </div>
+    )
+}
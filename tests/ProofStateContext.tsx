@@ -2,9 +2,11 @@ import React, { JSX } from "react"
 import { loadWasm, WasmContext } from "../src/components/MathExpression"
 import { ProofStateLocationContext, ProofStateSelectionContext, proofStateSelectionReducer } from "../src/core/ProofStateSelectionContext"
 import { ProofStateIdContext } from "../src/core/ProofDiscoveryStateContext"
+import { MathCompilationCache } from "../src/core/MathCompilationCache"
+import { AnnouncementRegion } from "../src/components/AnnouncementRegion"
 
 export default function ProofStateContextProvider({children}: {children: React.ReactNode}): JSX.Element {
-    const wasmRef = React.useRef<{ compile: (input: string) => string } | null>(null)
+    const wasmRef = React.useRef<MathCompilationCache | null>(null)
     const [wasmLoaded, setWasmLoaded] = React.useState(false)
 
     React.useEffect(() => {
@@ -23,7 +25,9 @@ export default function ProofStateContextProvider({children}: {children: React.R
         <ProofStateSelectionContext.Provider value={{ selections, dispatch: selectionsDispatch }}>
         <ProofStateLocationContext.Provider value={{kind: "goal", label: ""}}>
         <ProofStateIdContext.Provider value={{ proofNodeId: -1, proofContextId: -1 }}>
+        <AnnouncementRegion>
             {children}
+        </AnnouncementRegion>
         </ProofStateIdContext.Provider>
         </ProofStateLocationContext.Provider>
         </ProofStateSelectionContext.Provider>
@@ -0,0 +1,99 @@
+import { JSX } from "react";
+import { ContextVariable, LabelledStatement, ProofStateContext, Statement } from "../src/core/ProofStateZod";
+import { diffProofStateContexts, diffProofStates, diffStatements, LabelledStatementDiff } from "../src/core/ProofStateDiff";
+import { formatStatementAddress } from "../src/core/StatementAddress";
+import { Check, CheckList } from "./Checks";
+
+const context = (hypotheses: LabelledStatement[], variables: ContextVariable[] = []): ProofStateContext =>
+    ({ variables, hypotheses, goals: [{ label: "goal", statement: "$q$" }] })
+
+const conjunction = (...statements: Statement[]): Statement => ({ kind: "conjunction", statements })
+
+const h1: LabelledStatement = { label: "h1", statement: conjunction("$a$", { kind: "negation", statement: "$b$" }) }
+const h2: LabelledStatement = { label: "h2", statement: "$c$" }
+
+/** The label and status of each diffed hypothesis or goal, in order. */
+const describe = (diffs: LabelledStatementDiff[]) => diffs.map(({ labelled, status }) => `${labelled.label}:${status}`).join(", ")
+
+/** Checks of the diffing of proof states, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "find no difference between equal statements",
+        check: () => diffStatements(h1.statement, structuredClone(h1.statement)).length === 0
+    },
+    {
+        name: "locate the smallest changed sub-statements",
+        check: () => diffStatements(h1.statement, conjunction("$a'$", { kind: "negation", statement: "$b'$" }))
+            .map(formatStatementAddress).join("; ") === "conjunction[0]; conjunction[1] / negation"
+    },
+    {
+        name: "report the whole statement when its kind or shape changes",
+        check: () => formatStatementAddress(diffStatements(h1.statement, conjunction("$a$"))[0] ?? []) === "root" &&
+            formatStatementAddress(diffStatements("$a$", h1.statement, [{ kind: "disjunction", idx: 2 }])[0] ?? []) === "disjunction[2]"
+    },
+    {
+        name: "mark an identical context as unchanged",
+        check: () => {
+            const diff = diffProofStateContexts(context([h1, h2]), context([h1, h2]))
+            return diff.status === "unchanged" && describe(diff.hypotheses) === "h1:unchanged, h2:unchanged"
+        }
+    },
+    {
+        name: "match reordered hypotheses by label and follow the new order",
+        check: () => {
+            const diff = diffProofStateContexts(context([h1, h2]), context([h2, h1]))
+            return diff.status === "unchanged" && describe(diff.hypotheses) === "h2:unchanged, h1:unchanged"
+        }
+    },
+    {
+        name: "treat a relabelled hypothesis as removed and added",
+        check: () => {
+            const diff = diffProofStateContexts(context([h1, h2]), context([h1, { ...h2, label: "h3" }]))
+            return diff.status === "modified" && describe(diff.hypotheses) === "h1:unchanged, h3:added, h2:removed"
+        }
+    },
+    {
+        name: "record the changed addresses of a modified hypothesis",
+        check: () => {
+            const modified = { label: "h1", statement: conjunction("$a$", { kind: "negation", statement: "$d$" }) }
+            const [diff] = diffProofStateContexts(context([h1]), context([modified])).hypotheses
+            return diff?.status === "modified" && diff.labelled === modified &&
+                diff.changedAddresses.map(formatStatementAddress).join("; ") === "conjunction[1] / negation"
+        }
+    },
+    {
+        name: "compare variables by name, kind, description and value",
+        check: () => {
+            const x: ContextVariable = { kind: "let", name: "x", description: "$NN$", value: "$1$" }
+            const y: ContextVariable = { kind: "free", name: "y", description: "$NN$" }
+            const diff = diffProofStateContexts(context([], [x, y]), context([], [{ ...x, value: "$2$" }, { ...y, kind: "meta" }]))
+            const renamed = diffProofStateContexts(context([], [y]), context([], [{ ...y, name: "z" }]))
+            return diff.variables.map(v => v.status).join(", ") === "modified, modified" &&
+                renamed.variables.map(v => `${v.variable.name}:${v.status}`).join(", ") === "z:added, y:removed"
+        }
+    },
+    {
+        name: "mark contexts beyond the shorter proof state as added or removed",
+        check: () => {
+            const grown = diffProofStates([context([h1])], [context([h1]), context([h2])])
+            const shrunk = diffProofStates([context([h1]), context([h2])], [context([h1])])
+            return grown.map(d => d.status).join(", ") === "unchanged, added" && describe(grown[1]?.hypotheses ?? []) === "h2:added" &&
+                shrunk.map(d => d.status).join(", ") === "unchanged, removed" && describe(shrunk[1]?.goals ?? []) === "goal:removed"
+        }
+    },
+    {
+        name: "find no contexts when comparing empty proof states",
+        check: () => diffProofStates([], []).length === 0
+    }
+]
+
+export default function RenderProofStateDiff(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>ProofStateDiff Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -0,0 +1,86 @@
+import { JSX } from "react";
+import { MoveKind, nullProofDiscoveryState, ProofDiscoveryAction, proofDiscoveryStateReducer } from "../src/core/ProofDiscoveryState";
+import { ProofState } from "../src/core/ProofState";
+import { computeProofNodeStatuses, isProofStateClosed, provingChain } from "../src/core/ProofStatus";
+import { Check, CheckList } from "./Checks";
+
+const openState = (goal: string): ProofState => [{ variables: [], hypotheses: [], goals: [{ label: "goal", statement: goal }] }]
+const closedState: ProofState = [{ variables: [], hypotheses: [], goals: [] }]
+
+const transition = (kind: MoveKind, newProofState: ProofState): ProofDiscoveryAction =>
+    ({ action: "transition", move: { kind, description: kind }, newProofState })
+
+/**
+ * A session in which node 2 is closed and proves node 1 through a strengthening and node 0 through an equivalence,
+ * while node 3 is reached from node 0 by a weakening and node 4 by a move of kind "other", both of them closed,
+ * and node 5 is open as it implies node 0 rather than being implied by it.
+ */
+const { graph } = ([
+    { action: "initialize", statement: "p", proofState: openState("$p$") },
+    transition("equivalence", openState("$q$")),
+    transition("strengthening", closedState),
+    { action: "focus", nodeId: 0 },
+    transition("weakening", closedState),
+    { action: "focus", nodeId: 0 },
+    transition("other", closedState),
+    { action: "focus", nodeId: 0 },
+    transition("strengthening", openState("$r$"))
+] satisfies ProofDiscoveryAction[]).reduce(proofDiscoveryStateReducer, nullProofDiscoveryState)
+
+const statuses = computeProofNodeStatuses(graph)
+
+/** Checks of the proof status of nodes, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "consider a proof state closed once no context has goals left",
+        check: () => isProofStateClosed(closedState) && !isProofStateClosed([...closedState, ...openState("$p$")])
+    },
+    {
+        name: "consider an empty proof state closed",
+        check: () => isProofStateClosed([])
+    },
+    {
+        name: "mark nodes without goals as closed",
+        check: () => [2, 3, 4].every(nodeId => statuses.get(nodeId)?.kind === "closed")
+    },
+    {
+        name: "prove nodes along strengthening and equivalence moves",
+        check: () => JSON.stringify([statuses.get(1), statuses.get(0)]) ===
+            JSON.stringify([{ kind: "proved", from: 2 }, { kind: "proved", from: 1 }])
+    },
+    {
+        name: "not prove a node from a closed node it only implies or is unrelated to",
+        check: () => {
+            const { graph: weakened } = [transition("weakening", closedState)].reduce(proofDiscoveryStateReducer,
+                proofDiscoveryStateReducer(nullProofDiscoveryState, { action: "initialize", statement: "p", proofState: openState("$p$") }))
+            const { graph: unrelated } = [transition("other", closedState)].reduce(proofDiscoveryStateReducer,
+                proofDiscoveryStateReducer(nullProofDiscoveryState, { action: "initialize", statement: "p", proofState: openState("$p$") }))
+            return computeProofNodeStatuses(weakened).get(0)?.kind === "open" && computeProofNodeStatuses(unrelated).get(0)?.kind === "open"
+        }
+    },
+    {
+        name: "leave nodes that no closed node implies open",
+        check: () => statuses.get(5)?.kind === "open" && statuses.size === graph.order
+    },
+    {
+        name: "follow the proving chain down to a closed node",
+        check: () => JSON.stringify(provingChain(statuses, 0)) === JSON.stringify([0, 1, 2]) &&
+            JSON.stringify(provingChain(statuses, 2)) === JSON.stringify([2]) &&
+            provingChain(statuses, 5).length === 0
+    },
+    {
+        name: "find no status in an empty graph",
+        check: () => computeProofNodeStatuses(nullProofDiscoveryState.graph).size === 0 && provingChain(new Map(), 0).length === 0
+    }
+]
+
+export default function RenderProofStatus(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>ProofStatus Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -0,0 +1,126 @@
+import { JSX } from "react";
+import { statements } from "./samples/Statement";
+import { Statement } from "../src/core/ProofState";
+import {
+    adjacentCoordinate,
+    deleteAtAddress,
+    formatStatementAddress,
+    insertAtAddress,
+    replaceAtAddress,
+    statementAddresses,
+    statementAtAddress,
+    StatementAddressError
+} from "../src/core/StatementAddress";
+import { Check, CheckList, throwsError } from "./Checks";
+
+const implication: Statement = {
+    kind: "implication",
+    antecedent: { kind: "conjunction", statements: ["$p$", "$q$"] },
+    consequent: {
+        kind: "universal",
+        variable: { name: "$x$", description: "$RR$" },
+        statement: "$x^2 >= 0$"
+    }
+}
+
+/** Checks of the address utilities, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "get the antecedent of an implication",
+        check: () => JSON.stringify(statementAtAddress(implication, ["implication_antecedent"])) ===
+            JSON.stringify({ kind: "conjunction", statements: ["$p$", "$q$"] })
+    },
+    {
+        name: "get the type of a bound variable",
+        check: () => statementAtAddress(implication, ["implication_consequent", "universal_var_type"]) === "$RR$"
+    },
+    {
+        name: "replace a conjunct without modifying the original",
+        check: () => {
+            const replaced = replaceAtAddress(implication, ["implication_antecedent", { kind: "conjunction", idx: 1 }], "$r$")
+            return JSON.stringify(statementAtAddress(replaced, ["implication_antecedent"])) ===
+                JSON.stringify({ kind: "conjunction", statements: ["$p$", "$r$"] }) &&
+                statementAtAddress(implication, ["implication_antecedent", { kind: "conjunction", idx: 1 }]) === "$q$"
+        }
+    },
+    {
+        name: "share untouched sub-statements",
+        check: () => {
+            const replaced = replaceAtAddress(implication, ["implication_antecedent"], "$p$") as { consequent: Statement }
+            return replaced.consequent === (implication as { consequent: Statement }).consequent
+        }
+    },
+    {
+        name: "insert a conjunct at the end",
+        check: () => JSON.stringify(statementAtAddress(
+            insertAtAddress(implication, ["implication_antecedent", { kind: "conjunction", idx: 2 }], "$r$"),
+            ["implication_antecedent"])) === JSON.stringify({ kind: "conjunction", statements: ["$p$", "$q$", "$r$"] })
+    },
+    {
+        name: "delete a conjunct",
+        check: () => JSON.stringify(statementAtAddress(
+            deleteAtAddress(implication, ["implication_antecedent", { kind: "conjunction", idx: 0 }]),
+            ["implication_antecedent"])) === JSON.stringify({ kind: "conjunction", statements: ["$q$"] })
+    },
+    {
+        name: "reject a coordinate of the wrong kind",
+        check: () => throwsError(() => statementAtAddress(implication, ["equivalence_left"]), StatementAddressError)
+    },
+    {
+        name: "reject an index out of range",
+        check: () => throwsError(() => statementAtAddress(implication, ["implication_antecedent", { kind: "conjunction", idx: 2 }]), StatementAddressError)
+    },
+    {
+        name: "reject a compound statement as a variable type",
+        check: () => throwsError(() => replaceAtAddress(implication, ["implication_consequent", "universal_var_type"], implication), StatementAddressError)
+    },
+    {
+        name: "reject deleting a non-conjunct",
+        check: () => throwsError(() => deleteAtAddress(implication, ["implication_antecedent"]), StatementAddressError)
+    },
+    {
+        name: "step between siblings in the order in which they are rendered",
+        check: () => adjacentCoordinate("universal_var", 1) === "universal_var_type" &&
+            adjacentCoordinate("implication_antecedent", -1) === null &&
+            JSON.stringify(adjacentCoordinate({ kind: "conjunction", idx: 0 }, 1)) === JSON.stringify({ kind: "conjunction", idx: 1 }) &&
+            adjacentCoordinate({ kind: "disjunction", idx: 0 }, -1) === null
+    },
+    {
+        name: "list every address of the sample statements, each of which round-trips through replace",
+        check: () => statements.every(stmt => statementAddresses(stmt).every(address =>
+            JSON.stringify(replaceAtAddress(stmt, address, statementAtAddress(stmt, address))) === JSON.stringify(stmt)))
+    }
+]
+
+function describeStatement(stmt: Statement): string {
+    return typeof stmt === "string" ? `"${stmt}"` : stmt.kind
+}
+
+export default function RenderStatementAddresses(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>StatementAddress Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+
+            <h2>Addresses</h2>
+            {statements.map((stmt, idx) => (
+                <div key={idx} style={{
+                    marginBottom: '15px',
+                    padding: '10px',
+                    border: '1px solid #ddd',
+                    borderRadius: '5px',
+                    fontFamily: 'monospace',
+                    fontSize: '12px'
+                }}>
+                    {statementAddresses(stmt).map((address, addressIdx) => (
+                        <div key={addressIdx}>
+                            {formatStatementAddress(address)} → {describeStatement(statementAtAddress(stmt, address))}
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,148 @@
+import { JSX } from "react";
+import { Statement } from "../src/core/ProofState";
+import { parseStatement, StatementParseError } from "../src/core/StatementParser";
+import { printStatement } from "../src/core/StatementPrinter";
+import { statements } from "./samples/Statement";
+import { Check, CheckList, throwsError } from "./Checks";
+
+const squareRoot: Statement = {
+    kind: "universal",
+    variable: { name: "$x$", description: "$RR$" },
+    statement: {
+        kind: "implication",
+        antecedent: "$x > 0$",
+        consequent: {
+            kind: "existential",
+            variable: { name: "$y$", description: "$RR$" },
+            statement: "$y^2 = x$"
+        }
+    }
+}
+
+/** Checks of the statement parser, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "parse quantifiers with keyword connectives",
+        check: () => parsesTo("forall x : $RR$, ($x > 0$ => exists y : $RR$, $y^2 = x$)", squareRoot)
+    },
+    {
+        name: "parse quantifiers with symbol connectives",
+        check: () => parsesTo("∀ x : $RR$. $x > 0$ → ∃ y : $RR$. $y^2 = x$", squareRoot)
+    },
+    {
+        name: "bind several variables at once",
+        check: () => parsesTo("exists x y : $NN$, $x < y$", {
+            kind: "existential",
+            variable: { name: "$x$", description: "$NN$" },
+            statement: { kind: "existential", variable: { name: "$y$", description: "$NN$" }, statement: "$x < y$" }
+        })
+    },
+    {
+        name: "bind conjunction tighter than disjunction and implication",
+        check: () => parsesTo("p and q or r implies s", {
+            kind: "implication",
+            antecedent: { kind: "disjunction", statements: [{ kind: "conjunction", statements: ["$p$", "$q$"] }, "$r$"] },
+            consequent: "$s$"
+        })
+    },
+    {
+        name: "associate implication to the right",
+        check: () => parsesTo("p -> q -> r", {
+            kind: "implication",
+            antecedent: "$p$",
+            consequent: { kind: "implication", antecedent: "$q$", consequent: "$r$" }
+        })
+    },
+    {
+        name: "parse negation and text atoms",
+        check: () => parsesTo("not \"The group $G$ is \\\"abelian\\\"\" <=> ~p", {
+            kind: "equivalence",
+            left: { kind: "negation", statement: "The group $G$ is \"abelian\"" },
+            right: { kind: "negation", statement: "$p$" }
+        })
+    },
+    {
+        name: "report a missing parenthesis at the end",
+        check: () => failsAt("(p and q", 8)
+    },
+    {
+        name: "report an unterminated formula at its start",
+        check: () => failsAt("p and $x > 0", 6)
+    },
+    {
+        name: "report a quantifier without a variable",
+        check: () => failsAt("forall , p", 7)
+    },
+    {
+        name: "reject chained equivalences",
+        check: () => failsAt("p iff q iff r", 8)
+    },
+    {
+        name: "print with Unicode symbols",
+        check: () => printStatement(squareRoot) === "∀ x : ℝ, x > 0 → ∃ y : ℝ, y^2 = x"
+    },
+    {
+        name: "print parentheses only where they are needed",
+        check: () => printStatement(parseStatement("(forall x, p) and (q or r) and not (s => t) and exists y, u")) ===
+            "(∀ x, p) ∧ (q ∨ r) ∧ ¬(s → t) ∧ ∃ y, u"
+    },
+    {
+        name: "print the sample statements back into the parser syntax",
+        check: () => statements.every(stmt =>
+            JSON.stringify(parseStatement(printStatement(stmt, "parser"))) === JSON.stringify(withoutHighlights(stmt)))
+    }
+]
+
+function withoutHighlights(stmt: Statement): Statement {
+    if (typeof stmt === "string") return stmt
+    switch (stmt.kind) {
+        case "conjunction":
+        case "disjunction":
+            return { kind: stmt.kind, statements: stmt.statements.map(withoutHighlights) }
+        case "negation":
+            return { kind: "negation", statement: withoutHighlights(stmt.statement) }
+        case "implication":
+            return { kind: "implication", antecedent: withoutHighlights(stmt.antecedent), consequent: withoutHighlights(stmt.consequent) }
+        case "equivalence":
+            return { kind: "equivalence", left: withoutHighlights(stmt.left), right: withoutHighlights(stmt.right) }
+        case "universal":
+        case "existential":
+            return { kind: stmt.kind, variable: stmt.variable, statement: withoutHighlights(stmt.statement) }
+        case "highlight":
+            return withoutHighlights(stmt.statement)
+    }
+}
+
+function parsesTo(text: string, expected: Statement): boolean {
+    return JSON.stringify(parseStatement(text)) === JSON.stringify(expected)
+}
+
+function failsAt(text: string, position: number): boolean {
+    return throwsError(() => parseStatement(text), StatementParseError, e => e.position === position)
+}
+
+export default function RenderStatementParser(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>StatementParser and StatementPrinter Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+
+            <h2>Printed Samples</h2>
+            {statements.map((stmt, idx) => (
+                <div key={idx} style={{
+                    marginBottom: '10px',
+                    padding: '10px',
+                    border: '1px solid #ddd',
+                    borderRadius: '5px',
+                    fontFamily: 'monospace',
+                    fontSize: '12px'
+                }}>
+                    <div>{printStatement(stmt)}</div>
+                    <div style={{ color: '#666' }}>{printStatement(stmt, "parser")}</div>
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,132 @@
+import { JSX } from "react";
+import { statements } from "./samples/Statement";
+import { Statement } from "../src/core/ProofState";
+import {
+    deMorgan,
+    eliminateDoubleNegation,
+    pushNegationsToAtoms,
+    statementTransformations
+} from "../src/core/StatementTransformations";
+import { Check, CheckList } from "./Checks";
+
+const negate = (statement: Statement): Statement => ({ kind: "negation", statement })
+
+/** The sample statements along with their negations and double negations, so that every transformation has something to apply to. */
+const samples: Statement[] = statements.flatMap(stmt => [stmt, negate(stmt), negate(negate(stmt))])
+
+/** A pseudo-random truth value for an atomic statement, given the values of the variables bound around it. */
+function atomValue(atom: string, seed: number, bound: string[]): boolean {
+    let hash = seed
+    for (const char of `${atom}|${bound.join(",")}`) {
+        hash = (hash * 31 + char.charCodeAt(0)) % 1000003
+    }
+    return hash % 2 === 1
+}
+
+/**
+ * The truth value of a statement in the interpretation given by the seed,
+ * in which variables range over two values.
+ */
+function evaluate(statement: Statement, seed: number, bound: string[] = []): boolean {
+    if (typeof statement === "string") return atomValue(statement, seed, bound)
+    switch (statement.kind) {
+        case "conjunction":
+            return statement.statements.every(s => evaluate(s, seed, bound))
+        case "disjunction":
+            return statement.statements.some(s => evaluate(s, seed, bound))
+        case "negation":
+            return !evaluate(statement.statement, seed, bound)
+        case "highlight":
+            return evaluate(statement.statement, seed, bound)
+        case "implication":
+            return !evaluate(statement.antecedent, seed, bound) || evaluate(statement.consequent, seed, bound)
+        case "equivalence":
+            return evaluate(statement.left, seed, bound) === evaluate(statement.right, seed, bound)
+        case "universal":
+            return [0, 1].every(value => evaluate(statement.statement, seed, [...bound, `${statement.variable.name}=${value}`]))
+        case "existential":
+            return [0, 1].some(value => evaluate(statement.statement, seed, [...bound, `${statement.variable.name}=${value}`]))
+    }
+}
+
+/** Whether every negation within the statement, looking through highlights, is that of an atomic statement. */
+function negatesOnlyAtoms(statement: Statement): boolean {
+    if (typeof statement === "string") return true
+    switch (statement.kind) {
+        case "negation": {
+            let body = statement.statement
+            while (typeof body !== "string" && body.kind === "highlight") body = body.statement
+            return typeof body === "string"
+        }
+        case "conjunction":
+        case "disjunction":
+            return statement.statements.every(negatesOnlyAtoms)
+        case "highlight":
+        case "universal":
+        case "existential":
+            return negatesOnlyAtoms(statement.statement)
+        case "implication":
+            return negatesOnlyAtoms(statement.antecedent) && negatesOnlyAtoms(statement.consequent)
+        case "equivalence":
+            return negatesOnlyAtoms(statement.left) && negatesOnlyAtoms(statement.right)
+    }
+}
+
+/** Checks of the statement transformations, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "rewrite the samples into equivalent statements",
+        check: () => statementTransformations.every(transformation => samples.every(stmt => {
+            const transformed = transformation.apply(stmt)
+            return transformed === null ||
+                Array.from({ length: 16 }, (_, seed) => seed).every(seed => evaluate(transformed, seed) === evaluate(stmt, seed))
+        }))
+    },
+    {
+        name: "apply some transformation to every negated compound sample",
+        check: () => samples
+            .filter(stmt => typeof stmt !== "string" && stmt.kind === "negation" &&
+                typeof stmt.statement !== "string" && stmt.statement.kind !== "highlight")
+            .every(stmt => statementTransformations.some(transformation => transformation.apply(stmt) !== null))
+    },
+    {
+        name: "leave negations only on atomic statements after pushing them to atoms",
+        check: () => samples.every(stmt => negatesOnlyAtoms(pushNegationsToAtoms.apply(stmt) ?? stmt))
+    },
+    {
+        name: "push negations to atoms only once",
+        check: () => samples.every(stmt => pushNegationsToAtoms.apply(pushNegationsToAtoms.apply(stmt) ?? stmt) === null)
+    },
+    {
+        name: "undo De Morgan by applying it again",
+        check: () => samples.every(stmt => {
+            const transformed = deMorgan.apply(stmt)
+            return transformed === null || JSON.stringify(deMorgan.apply(transformed)) === JSON.stringify(stmt)
+        })
+    },
+    {
+        name: "keep highlights within the rewritten statement",
+        check: () => JSON.stringify(pushNegationsToAtoms.apply(negate({
+            kind: "conjunction",
+            statements: [{ kind: "highlight", statement: "$p$" }, "$q$"]
+        }))) === JSON.stringify({
+            kind: "disjunction",
+            statements: [negate({ kind: "highlight", statement: "$p$" }), negate("$q$")]
+        })
+    },
+    {
+        name: "drop highlights around the statements a transformation matches",
+        check: () => eliminateDoubleNegation.apply(negate({ kind: "highlight", statement: negate("$p$") })) === "$p$"
+    }
+]
+
+export default function RenderStatementTransformations(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>Statement Transformation Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -0,0 +1,86 @@
+import { JSX } from "react";
+import {
+    childSubExpressions,
+    enclosingSubExpressions,
+    parentSubExpression,
+    smallestCoveringSubExpression,
+    SubExpression,
+    subExpressionParents
+} from "../src/core/SubExpression";
+import { Check, CheckList } from "./Checks";
+
+/**
+ * The sub-expressions of `a + b^2` along with their bounding boxes, where `b^2` is listed twice with the same source range,
+ * as a compiled expression may report for an element and the element wrapping it.
+ */
+const subexprs: SubExpression[] = [
+    { text: "a + b^2", source_start: 0, source_end: 7, x: 0, y: 0, width: 70, height: 20 },
+    { text: "a", source_start: 0, source_end: 1, x: 0, y: 5, width: 10, height: 10 },
+    { text: "b^2", source_start: 4, source_end: 7, x: 40, y: 0, width: 30, height: 20 },
+    { text: "2", source_start: 6, source_end: 7, x: 55, y: 0, width: 8, height: 8 },
+    { text: "b", source_start: 4, source_end: 5, x: 40, y: 5, width: 10, height: 10 },
+    { text: "b^2", source_start: 4, source_end: 7, x: 40, y: 0, width: 30, height: 20 }
+]
+
+const parents = subExpressionParents(subexprs)
+
+/** Checks of the nesting of sub-expressions, each of which should return `true`. */
+const checks: Check[] = [
+    {
+        name: "find the smallest sub-expression containing another",
+        check: () => parentSubExpression(subexprs, 0) === null && parentSubExpression(subexprs, 1) === 0
+    },
+    {
+        name: "take the first of two sub-expressions with the same source range to contain the other",
+        check: () => parentSubExpression(subexprs, 5) === 2 && parentSubExpression(subexprs, 2) === 0
+    },
+    {
+        name: "nest the sub-expressions within equal ranges in the last of them",
+        check: () => parentSubExpression(subexprs, 3) === 5 && parentSubExpression(subexprs, 4) === 5
+    },
+    {
+        name: "compute the parents of all sub-expressions at once",
+        check: () => parents.every((parent, idx) => parent === parentSubExpression(subexprs, idx))
+    },
+    {
+        name: "list the children in source order",
+        check: () => JSON.stringify(childSubExpressions(subexprs, parents, 5)) === JSON.stringify([4, 3]) &&
+            JSON.stringify(childSubExpressions(subexprs, parents, 0)) === JSON.stringify([1, 2])
+    },
+    {
+        name: "list the outermost sub-expressions as the children of the expression",
+        check: () => JSON.stringify(childSubExpressions(subexprs, parents, null)) === JSON.stringify([0])
+    },
+    {
+        name: "list the enclosing sub-expressions from the innermost outwards",
+        check: () => JSON.stringify(enclosingSubExpressions(parents, 3)) === JSON.stringify([3, 5, 2, 0]) &&
+            JSON.stringify(enclosingSubExpressions(parents, 0)) === JSON.stringify([0])
+    },
+    {
+        name: "find the innermost sub-expression at a point",
+        check: () => smallestCoveringSubExpression(subexprs, { x: 5, y: 10, width: 0, height: 0 }) === 1
+    },
+    {
+        name: "cover a dragged box with the smallest sub-expression around it, taking the first of equal boxes",
+        check: () => smallestCoveringSubExpression(subexprs, { x: 42, y: 2, width: 18, height: 10 }) === 2
+    },
+    {
+        name: "cover a box across sub-expressions with the one containing them all",
+        check: () => smallestCoveringSubExpression(subexprs, { x: 5, y: 10, width: 50, height: 5 }) === 0
+    },
+    {
+        name: "cover no box reaching outside the expression",
+        check: () => smallestCoveringSubExpression(subexprs, { x: -5, y: 10, width: 20, height: 5 }) === null
+    }
+]
+
+export default function RenderSubExpressions(): JSX.Element {
+    return (
+        <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+            <h1>SubExpression Tests</h1>
+
+            <h2>Checks</h2>
+            <CheckList checks={checks} />
+        </div>
+    )
+}
@@ -1,11 +1,43 @@
 import { JSX, useState } from "react"
+import "./AtomicStatement"
+import "./Export"
+import "./LeanExport"
+import "./LeanImport"
+import "./MathCompilationCache"
 import "./MathExpression"
 import "./MathStatement"
+import "./MoveOracle"
+import "./Moves"
+import "./ProofDiscoveryActionValidation"
+import "./ProofDiscoveryGraph"
+import "./ProofDiscoverySerialization"
+import "./ProofStateDiff"
+import "./ProofStatus"
+import "./StatementAddress"
+import "./StatementParser"
+import "./StatementTransformations"
+import "./SubExpression"
+import RenderAtomicStatements from "./AtomicStatement"
+import RenderExports from "./Export"
+import RenderLeanExport from "./LeanExport"
+import RenderLeanImport from "./LeanImport"
+import RenderMathCompilationCache from "./MathCompilationCache"
 import RenderMathExpressions from "./MathExpression"
 import RenderMathStatements from "./MathStatement"
+import RenderMoveOracle from "./MoveOracle"
+import RenderMoves from "./Moves"
+import RenderProofDiscoveryActionValidation from "./ProofDiscoveryActionValidation"
+import RenderProofDiscoveryGraph from "./ProofDiscoveryGraph"
+import RenderProofDiscoverySerialization from "./ProofDiscoverySerialization"
+import RenderProofStateDiff from "./ProofStateDiff"
+import RenderProofStatus from "./ProofStatus"
+import RenderStatementAddresses from "./StatementAddress"
+import RenderStatementParser from "./StatementParser"
+import RenderStatementTransformations from "./StatementTransformations"
+import RenderSubExpressions from "./SubExpression"
 
 export default function Test(): JSX.Element {
-    const [activeTest, setActiveTest] = useState<'expressions' | 'statements'>('statements')
+    const [activeTest, setActiveTest] = useState<'expressions' | 'statements' | 'discovery' | 'addresses' | 'parser' | 'lean' | 'serialization' | 'oracle' | 'transformations' | 'subexpressions' | 'export' | 'atomic' | 'validation' | 'moves' | 'cache' | 'status' | 'diff' | 'leanexport'>('statements')
     
     return (
         <div>
@@ -49,9 +81,266 @@ export default function Test(): JSX.Element {
                 >
                     Statements
                 </button>
+                <button
+                    onClick={() => setActiveTest('discovery')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'discovery' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Proof Discovery
+                </button>
+                <button
+                    onClick={() => setActiveTest('addresses')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'addresses' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Statement Addresses
+                </button>
+                <button
+                    onClick={() => setActiveTest('parser')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'parser' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Statement Parser
+                </button>
+                <button
+                    onClick={() => setActiveTest('lean')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'lean' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Lean Import
+                </button>
+                <button
+                    onClick={() => setActiveTest('serialization')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'serialization' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Serialization
+                </button>
+                <button
+                    onClick={() => setActiveTest('oracle')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'oracle' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Move Oracle
+                </button>
+                <button
+                    onClick={() => setActiveTest('transformations')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'transformations' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Statement Transformations
+                </button>
+                <button
+                    onClick={() => setActiveTest('subexpressions')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'subexpressions' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Sub-Expressions
+                </button>
+                <button
+                    onClick={() => setActiveTest('export')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'export' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Export
+                </button>
+                <button
+                    onClick={() => setActiveTest('atomic')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'atomic' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Atomic Statements
+                </button>
+                <button
+                    onClick={() => setActiveTest('validation')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'validation' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Action Validation
+                </button>
+                <button
+                    onClick={() => setActiveTest('moves')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'moves' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Moves
+                </button>
+                <button
+                    onClick={() => setActiveTest('cache')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'cache' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Compilation Cache
+                </button>
+                <button
+                    onClick={() => setActiveTest('status')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'status' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Proof Status
+                </button>
+                <button
+                    onClick={() => setActiveTest('diff')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'diff' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Proof State Diff
+                </button>
+                <button
+                    onClick={() => setActiveTest('leanexport')}
+                    style={{
+                        padding: '10px 20px',
+                        backgroundColor: activeTest === 'leanexport' ? '#2196F3' : '#555',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: 'bold'
+                    }}
+                >
+                    Lean Export
+                </button>
             </div>
             
-            {activeTest === 'expressions' ? <RenderMathExpressions /> : <RenderMathStatements />}
+            {activeTest === 'expressions' && <RenderMathExpressions />}
+            {activeTest === 'statements' && <RenderMathStatements />}
+            {activeTest === 'discovery' && <RenderProofDiscoveryGraph />}
+            {activeTest === 'addresses' && <RenderStatementAddresses />}
+            {activeTest === 'parser' && <RenderStatementParser />}
+            {activeTest === 'lean' && <RenderLeanImport />}
+            {activeTest === 'serialization' && <RenderProofDiscoverySerialization />}
+            {activeTest === 'oracle' && <RenderMoveOracle />}
+            {activeTest === 'transformations' && <RenderStatementTransformations />}
+            {activeTest === 'subexpressions' && <RenderSubExpressions />}
+            {activeTest === 'export' && <RenderExports />}
+            {activeTest === 'atomic' && <RenderAtomicStatements />}
+            {activeTest === 'validation' && <RenderProofDiscoveryActionValidation />}
+            {activeTest === 'moves' && <RenderMoves />}
+            {activeTest === 'cache' && <RenderMathCompilationCache />}
+            {activeTest === 'status' && <RenderProofStatus />}
+            {activeTest === 'diff' && <RenderProofStateDiff />}
+            {activeTest === 'leanexport' && <RenderLeanExport />}
         </div>
     )
-}
\ No newline at end of file
+}
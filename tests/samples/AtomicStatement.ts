@@ -36,5 +36,21 @@ export const atomicStatements: AtomicStatementProps[] = [
     {
         address: [],
         input: "The limit $lim_(x arrow infinity) 1/x$ approaches $0$ as $x$ grows"
+    },
+    {
+        address: [],
+        input: "A ticket costs \\$5, and $n$ tickets cost $5n$ dollars"
+    },
+    {
+        address: [],
+        input: "The set $\\{x \\$ y\\}$ keeps its escaped dollar"
+    },
+    {
+        address: [],
+        input: "An unclosed formula $x + y is shown as written"
+    },
+    {
+        address: [],
+        input: "Empty math $$ is shown as written"
     }
 ]
@@ -0,0 +1,24 @@
+/** Sample goal states as shown by the Lean infoview, to be imported into proof states. */
+export const leanGoals: string[] = [
+    `x : ℝ
+hx : 0 < x
+⊢ ∃ y > 0, y ^ 2 = x`,
+    `f : ℝ → ℝ
+a : ℝ
+hf : ∀ ε > 0, ∃ δ > 0, ∀ (x : ℝ), |x - a| < δ → |f x - f a| < ε
+⊢ ∀ (ε : ℝ), 0 < ε →
+    ∃ δ, 0 < δ ∧ ∀ x, |x - a| < δ → |f x - f a| < ε`,
+    `2 goals
+case inl
+p q : Prop
+hp : p
+⊢ q ∨ p
+case inr
+p q : Prop
+hq : q
+⊢ q ∨ p`,
+    `h : ℝ
+H : Set ℝ
+hH : h ∈ H
+⊢ ∃ y ∈ H, y ≤ h`
+]
@@ -0,0 +1,114 @@
+import { ProofDiscoveryAction } from "../../src/core/ProofDiscoveryState"
+
+/** A sample proof discovery session, replayed action by action to populate the discovery graph. */
+export const proofDiscoveryActions: ProofDiscoveryAction[] = [
+    {
+        action: "initialize",
+        statement: "Every positive real number has a square root",
+        proofState: [{
+            variables: [],
+            hypotheses: [],
+            goals: [{
+                label: "goal",
+                statement: {
+                    kind: "universal",
+                    variable: { name: "$x$", description: "$RR$" },
+                    statement: {
+                        kind: "implication",
+                        antecedent: "$x > 0$",
+                        consequent: {
+                            kind: "existential",
+                            variable: { name: "$y$", description: "$RR$" },
+                            statement: "$y^2 = x$"
+                        }
+                    }
+                }
+            }]
+        }]
+    },
+    {
+        action: "transition",
+        move: { kind: "equivalence", description: "Introduce $x$ as an arbitrary real number" },
+        newProofState: [{
+            variables: [{ kind: "free", name: "$x$", description: "$RR$" }],
+            hypotheses: [],
+            goals: [{
+                label: "goal",
+                statement: {
+                    kind: "implication",
+                    antecedent: "$x > 0$",
+                    consequent: {
+                        kind: "existential",
+                        variable: { name: "$y$", description: "$RR$" },
+                        statement: "$y^2 = x$"
+                    }
+                }
+            }]
+        }]
+    },
+    {
+        action: "transition",
+        move: { kind: "equivalence", description: "Assume $x > 0$" },
+        newProofState: [{
+            variables: [{ kind: "free", name: "$x$", description: "$RR$" }],
+            hypotheses: [{ label: "h1", statement: "$x > 0$" }],
+            goals: [{
+                label: "goal",
+                statement: {
+                    kind: "existential",
+                    variable: { name: "$y$", description: "$RR$" },
+                    statement: "$y^2 = x$"
+                }
+            }]
+        }]
+    },
+    {
+        action: "transition",
+        move: { kind: "strengthening", description: "Look for a positive square root" },
+        newProofState: [{
+            variables: [{ kind: "free", name: "$x$", description: "$RR$" }],
+            hypotheses: [{ label: "h1", statement: "$x > 0$" }],
+            goals: [{
+                label: "goal",
+                statement: {
+                    kind: "existential",
+                    variable: { name: "$y$", description: "$RR$" },
+                    statement: { kind: "conjunction", statements: ["$y > 0$", "$y^2 = x$"] }
+                }
+            }]
+        }]
+    },
+    { action: "focus", nodeId: 2 },
+    {
+        action: "transition",
+        move: { kind: "other", description: "Try $y = x / 2$" },
+        newProofState: [{
+            variables: [
+                { kind: "free", name: "$x$", description: "$RR$" },
+                { kind: "let", name: "$y$", description: "$RR$", value: "$x / 2$" }
+            ],
+            hypotheses: [{ label: "h1", statement: "$x > 0$" }],
+            goals: [{ label: "goal", statement: "$y^2 = x$" }]
+        }]
+    },
+    { action: "focus", nodeId: 2 },
+    {
+        action: "transition",
+        move: { kind: "weakening", description: "Only ask for an approximate square root" },
+        newProofState: [{
+            variables: [
+                { kind: "free", name: "$x$", description: "$RR$" },
+                { kind: "free", name: "$epsilon$", description: "$RR^+$" }
+            ],
+            hypotheses: [{ label: "h1", statement: "$x > 0$" }],
+            goals: [{
+                label: "goal",
+                statement: {
+                    kind: "existential",
+                    variable: { name: "$y$", description: "$RR$" },
+                    statement: "$|y^2 - x| < epsilon$"
+                }
+            }]
+        }]
+    }
+]